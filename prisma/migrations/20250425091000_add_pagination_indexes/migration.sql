@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "Comment_postId_createdAt_id_idx" ON "Comment"("postId", "createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Post_createdAt_id_idx" ON "Post"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "User_createdAt_id_idx" ON "User"("createdAt", "id");
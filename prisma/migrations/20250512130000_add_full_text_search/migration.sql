@@ -0,0 +1,23 @@
+-- Prisma cannot express generated columns, so the search vectors are
+-- declared as Unsupported("tsvector") in the schema and defined here.
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', "username")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Post_searchVector_idx" ON "Post" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Comment_searchVector_idx" ON "Comment" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "User_searchVector_idx" ON "User" USING GIN ("searchVector");
@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "ModerationActionType" ADD VALUE 'RESTORE';
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "deletionBatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ModerationAction" ADD COLUMN     "deletionBatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "deletionBatchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletionBatchId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Comment_deletionBatchId_idx" ON "Comment"("deletionBatchId");
+
+-- CreateIndex
+CREATE INDEX "Post_deletionBatchId_idx" ON "Post"("deletionBatchId");
+
+-- CreateIndex
+CREATE INDEX "User_deletionBatchId_idx" ON "User"("deletionBatchId");
+
+-- Rows deleted before batches existed were deleted one at a time, so each
+-- gets a batch of its own
+UPDATE "User" SET "deletionBatchId" = gen_random_uuid()::text WHERE "deletedAt" IS NOT NULL;
+UPDATE "Post" SET "deletionBatchId" = gen_random_uuid()::text WHERE "deletedAt" IS NOT NULL;
+UPDATE "Comment" SET "deletionBatchId" = gen_random_uuid()::text WHERE "deletedAt" IS NOT NULL;
+
+-- Link existing moderator deletions to the batch of the row they deleted
+UPDATE "ModerationAction" m SET "deletionBatchId" = p."deletionBatchId"
+FROM "Post" p
+WHERE m."action" = 'DELETE' AND m."postId" = p."id" AND p."deletedAt" IS NOT NULL;
+UPDATE "ModerationAction" m SET "deletionBatchId" = c."deletionBatchId"
+FROM "Comment" c
+WHERE m."action" = 'DELETE' AND m."commentId" = c."id" AND c."deletedAt" IS NOT NULL;
@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "ReportCategory" AS ENUM ('SPAM', 'HARASSMENT', 'HATE', 'VIOLENCE', 'SEXUAL_CONTENT', 'MISINFORMATION', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "ReportResolution" AS ENUM ('DISMISSED', 'CONTENT_HIDDEN', 'USER_SUSPENDED');
+
+-- AlterEnum
+ALTER TYPE "ModerationActionType" ADD VALUE 'SUSPEND';
+
+-- AlterTable
+ALTER TABLE "ModerationAction" ADD COLUMN     "userId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "suspendedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ReportCase" (
+    "id" SERIAL NOT NULL,
+    "postId" INTEGER,
+    "commentId" INTEGER,
+    "userId" INTEGER,
+    "status" "ReportStatus" NOT NULL DEFAULT 'OPEN',
+    "round" INTEGER NOT NULL DEFAULT 1,
+    "reportCount" INTEGER NOT NULL DEFAULT 0,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReportedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "autoHiddenAt" TIMESTAMP(3),
+    "resolution" "ReportResolution",
+    "resolutionNote" TEXT,
+    "resolvedById" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReportCase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Report" (
+    "id" SERIAL NOT NULL,
+    "caseId" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "reporterId" INTEGER NOT NULL,
+    "category" "ReportCategory" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Report_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCase_postId_key" ON "ReportCase"("postId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCase_commentId_key" ON "ReportCase"("commentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportCase_userId_key" ON "ReportCase"("userId");
+
+-- CreateIndex
+CREATE INDEX "ReportCase_status_lastReportedAt_id_idx" ON "ReportCase"("status", "lastReportedAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Report_reporterId_idx" ON "Report"("reporterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Report_caseId_round_reporterId_key" ON "Report"("caseId", "round", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "ModerationAction" ADD CONSTRAINT "ModerationAction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCase" ADD CONSTRAINT "ReportCase_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCase" ADD CONSTRAINT "ReportCase_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCase" ADD CONSTRAINT "ReportCase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportCase" ADD CONSTRAINT "ReportCase_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "ReportCase"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
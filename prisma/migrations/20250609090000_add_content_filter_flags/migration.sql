@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "Report" DROP CONSTRAINT "Report_reporterId_fkey";
+
+-- AlterTable
+ALTER TABLE "Report" ALTER COLUMN "reporterId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
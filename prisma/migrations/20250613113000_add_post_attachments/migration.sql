@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PostAttachment" (
+    "id" SERIAL NOT NULL,
+    "postId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostAttachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PostAttachment_postId_position_idx" ON "PostAttachment"("postId", "position");
+
+-- AddForeignKey
+ALTER TABLE "PostAttachment" ADD CONSTRAINT "PostAttachment_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "avatarSeed" TEXT,
+ADD COLUMN     "avatarStyle" TEXT;
+
+-- Move existing users off the external avatar service, keeping their old
+-- seed and, where it is still rendered, their old style
+UPDATE "User" SET
+  "avatarSeed" = COALESCE(substring("avatarUrl" from '[?&]seed=([^&]+)'), md5(random()::text)),
+  "avatarStyle" = CASE
+    WHEN substring("avatarUrl" from '/5\.x/([a-z-]+)/') IN ('identicon', 'initials', 'shapes', 'rings')
+      THEN substring("avatarUrl" from '/5\.x/([a-z-]+)/')
+    ELSE 'identicon'
+  END,
+  "avatarUrl" = '/users/' || "id" || '/avatar.svg',
+  "avatarTag" = replace("avatarTag", "avatarUrl", '/users/' || "id" || '/avatar.svg');
+
+ALTER TABLE "User" ALTER COLUMN "avatarSeed" SET NOT NULL,
+ALTER COLUMN "avatarStyle" SET NOT NULL;
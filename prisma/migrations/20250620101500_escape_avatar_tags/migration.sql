@@ -0,0 +1,8 @@
+-- Rebuild avatar tags with the username and URL HTML-escaped; they were
+-- interpolated raw before
+UPDATE "User" SET "avatarTag" =
+  '<img src="' ||
+  replace(replace(replace(replace(replace("avatarUrl", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;') ||
+  '" alt="Avatar for ' ||
+  replace(replace(replace(replace(replace("username", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;') ||
+  '" />';
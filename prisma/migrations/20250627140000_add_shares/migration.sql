@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ShareType" AS ENUM ('REPOST', 'QUOTE');
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "shareType" "ShareType",
+ADD COLUMN     "sharedPostId" INTEGER;
+
+-- A post shares another with a type, or shares nothing
+ALTER TABLE "Post" ADD CONSTRAINT "Post_share_check" CHECK (("sharedPostId" IS NULL) = ("shareType" IS NULL));
+
+-- CreateIndex
+CREATE INDEX "Post_sharedPostId_shareType_createdAt_id_idx" ON "Post"("sharedPostId", "shareType", "createdAt", "id");
+
+-- AddForeignKey
+ALTER TABLE "Post" ADD CONSTRAINT "Post_sharedPostId_fkey" FOREIGN KEY ("sharedPostId") REFERENCES "Post"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "BoardVisibility" AS ENUM ('PUBLIC', 'PRIVATE');
+
+-- CreateEnum
+CREATE TYPE "BoardRole" AS ENUM ('OWNER', 'MEMBER', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "Board" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "visibility" "BoardVisibility" NOT NULL DEFAULT 'PUBLIC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Board_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoardMember" (
+    "id" SERIAL NOT NULL,
+    "boardId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" "BoardRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BoardMember_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing posts move to a public "General" board that every existing user
+-- belongs to, run by the admins
+INSERT INTO "Board" ("name", "description", "visibility", "updatedAt")
+VALUES ('General', 'Everything posted before boards existed', 'PUBLIC', CURRENT_TIMESTAMP);
+
+INSERT INTO "BoardMember" ("boardId", "userId", "role")
+SELECT b."id", u."id", CASE WHEN u."role" = 'ADMIN' THEN 'OWNER'::"BoardRole" ELSE 'MEMBER'::"BoardRole" END
+FROM "Board" b, "User" u
+WHERE b."name" = 'General';
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "boardId" INTEGER;
+
+UPDATE "Post" SET "boardId" = (SELECT "id" FROM "Board" WHERE "name" = 'General');
+
+ALTER TABLE "Post" ALTER COLUMN "boardId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Post_boardId_createdAt_id_idx" ON "Post"("boardId", "createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Board_createdAt_id_idx" ON "Board"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "BoardMember_boardId_createdAt_id_idx" ON "BoardMember"("boardId", "createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "BoardMember_userId_idx" ON "BoardMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoardMember_boardId_userId_key" ON "BoardMember"("boardId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Post" ADD CONSTRAINT "Post_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardMember" ADD CONSTRAINT "BoardMember_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardMember" ADD CONSTRAINT "BoardMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
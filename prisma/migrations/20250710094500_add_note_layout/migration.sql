@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "NoteColor" AS ENUM ('YELLOW', 'PINK', 'BLUE', 'GREEN', 'ORANGE', 'PURPLE');
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "color" "NoteColor" NOT NULL DEFAULT 'YELLOW',
+ADD COLUMN     "height" INTEGER NOT NULL DEFAULT 200,
+ADD COLUMN     "layoutVersion" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rotation" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "width" INTEGER NOT NULL DEFAULT 200,
+ADD COLUMN     "x" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "y" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "zIndex" INTEGER NOT NULL DEFAULT 0;
+
+-- Lay existing notes out on a grid per board, five to a row in the order they
+-- were posted, so they do not all start piled up in the corner
+UPDATE "Post" p
+SET "x" = ((n."position" - 1) % 5) * 220,
+    "y" = ((n."position" - 1) / 5) * 220,
+    "zIndex" = n."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "boardId" ORDER BY "createdAt", "id") AS "position"
+  FROM "Post"
+) n
+WHERE n."id" = p."id";
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "directKey" TEXT;
+
+-- Key the existing one-to-one conversations by their pair of members. Where a
+-- race already opened the same pair twice, the older conversation keeps the key.
+UPDATE "Conversation" c
+SET "directKey" = k."directKey"
+FROM (
+    SELECT DISTINCT ON (pair."directKey") pair."conversationId", pair."directKey"
+    FROM (
+        SELECT cm."conversationId",
+               MIN(cm."userId")::TEXT || ':' || MAX(cm."userId")::TEXT AS "directKey"
+        FROM "ConversationMember" cm
+        JOIN "Conversation" conv ON conv."id" = cm."conversationId"
+        WHERE conv."isGroup" = false
+        GROUP BY cm."conversationId"
+        HAVING COUNT(*) = 2
+    ) pair
+    ORDER BY pair."directKey", pair."conversationId"
+) k
+WHERE c."id" = k."conversationId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Conversation_directKey_key" ON "Conversation"("directKey");
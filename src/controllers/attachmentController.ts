@@ -0,0 +1,227 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { PrismaClient, ShareType } from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { postInclude, presentPosts, presentAttachment } from "../utils/posts";
+import { isPublicBoard, visiblePostWhere } from "../utils/boards";
+import { getMediaStorage } from "../utils/mediaStorage";
+import {
+  processImage,
+  ProcessedImage,
+  IMAGE_MIME_TYPES,
+  THUMBNAIL_MIME_TYPE,
+} from "../utils/images";
+import { publishEvent, POSTS_CHANNEL } from "../utils/eventBus";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+import {
+  uploadPostAttachmentsRoute,
+  getAttachmentImageRoute,
+  getAttachmentThumbnailRoute,
+  deletePostAttachmentRoute,
+  MAX_POST_ATTACHMENTS,
+  ATTACHMENT_FIELD,
+} from "../schemas/attachmentSchemas";
+
+const prisma = new PrismaClient();
+
+// Served media may be cached briefly; deleting a post hides it soon after
+const MEDIA_CACHE_CONTROL = "private, max-age=300";
+
+// Best effort: a file left behind is harmless, a failed request is not
+const removeFiles = async (keys: string[]): Promise<void> => {
+  const storage = getMediaStorage();
+  await Promise.all(
+    keys.map((key) =>
+      storage.remove(key).catch((error) => {
+        console.error(`Failed to remove media ${key}:`, error);
+      })
+    )
+  );
+};
+
+// Re-broadcasts a visible public post so live clients pick up attachment changes
+const publishPostUpdate = async (postId: number): Promise<void> => {
+  const post = await prisma.post.findUniqueOrThrow({
+    where: { id: postId },
+    include: postInclude,
+  });
+  if (!post.hiddenAt && isPublicBoard(post.board)) {
+    const [broadcast] = await presentPosts([post]);
+    publishEvent(POSTS_CHANNEL, "post.updated", broadcast);
+  }
+};
+
+export const uploadPostAttachments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params } = uploadPostAttachmentsRoute.input(req);
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  const userId = req.user!.id;
+  const storedKeys: string[] = [];
+  try {
+    if (files.length === 0) {
+      throw new BadRequestError(
+        `No images sent; upload them in the "${ATTACHMENT_FIELD}" field`
+      );
+    }
+    const post = await prisma.post.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { attachments: true } } },
+    });
+    if (!post || post.deletedAt) {
+      throw new NotFoundError("Post not found");
+    }
+    if (post.userId !== userId) {
+      throw new ForbiddenError("You can only add images to your own posts");
+    }
+    if (post.shareType === ShareType.REPOST) {
+      throw new BadRequestError("A repost cannot have images; quote the post");
+    }
+    const existing = post._count.attachments;
+    if (existing + files.length > MAX_POST_ATTACHMENTS) {
+      throw new BadRequestError(
+        `A post can have at most ${MAX_POST_ATTACHMENTS} images; this one has ${existing}`
+      );
+    }
+
+    // One at a time to bound the memory image decoding takes
+    const images: ProcessedImage[] = [];
+    for (const file of files) {
+      images.push(await processImage(file.buffer, file.originalname));
+    }
+
+    const storage = getMediaStorage();
+    const rows = [];
+    for (const image of images) {
+      const base = `posts/${post.id}/${randomUUID()}`;
+      const storageKey = `${base}.${image.format}`;
+      const thumbnailKey = `${base}-thumb.webp`;
+      const mimeType = IMAGE_MIME_TYPES[image.format];
+      await storage.put(storageKey, image.data, mimeType);
+      storedKeys.push(storageKey);
+      await storage.put(thumbnailKey, image.thumbnail, THUMBNAIL_MIME_TYPE);
+      storedKeys.push(thumbnailKey);
+      rows.push({
+        postId: post.id,
+        position: existing + rows.length,
+        mimeType,
+        width: image.width,
+        height: image.height,
+        size: image.data.length,
+        storageKey,
+        thumbnailKey,
+      });
+    }
+
+    const attachments = await prisma.$transaction(
+      rows.map((data) => prisma.postAttachment.create({ data }))
+    );
+    storedKeys.length = 0;
+
+    await publishPostUpdate(post.id);
+    res.status(201).json({
+      success: true,
+      data: attachments.map(presentAttachment),
+    });
+  } catch (error) {
+    // Files of a failed upload have no row pointing at them
+    await removeFiles(storedKeys);
+    next(error);
+  }
+};
+
+export const getAttachmentImage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await sendAttachment(req, res, next, false);
+};
+
+export const getAttachmentThumbnail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await sendAttachment(req, res, next, true);
+};
+
+// Streams an image while its post is visible to the caller
+const sendAttachment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  thumbnail: boolean
+): Promise<void> => {
+  const { params } = (
+    thumbnail ? getAttachmentThumbnailRoute : getAttachmentImageRoute
+  ).input(req);
+  try {
+    const attachment = await prisma.postAttachment.findUnique({
+      where: {
+        id: params.attachmentId,
+        postId: params.id,
+        post: visiblePostWhere(req.user),
+      },
+      include: { post: { select: { deletedAt: true, hiddenAt: true } } },
+    });
+    if (
+      !attachment ||
+      ((attachment.post.deletedAt || attachment.post.hiddenAt) &&
+        !isModerator(req.user))
+    ) {
+      throw new NotFoundError("Attachment not found");
+    }
+
+    const stream = await getMediaStorage().get(
+      thumbnail ? attachment.thumbnailKey : attachment.storageKey
+    );
+    if (!stream) {
+      throw new NotFoundError("Attachment not found");
+    }
+    res.status(200).set({
+      "Content-Type": thumbnail ? THUMBNAIL_MIME_TYPE : attachment.mimeType,
+      "Cache-Control": MEDIA_CACHE_CONTROL,
+      "X-Content-Type-Options": "nosniff",
+    });
+    stream.on("error", next);
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deletePostAttachment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params } = deletePostAttachmentRoute.input(req);
+  try {
+    const attachment = await prisma.postAttachment.findUnique({
+      where: { id: params.attachmentId, postId: params.id },
+      include: { post: true },
+    });
+    if (!attachment || attachment.post.deletedAt) {
+      throw new NotFoundError("Attachment not found");
+    }
+    if (attachment.post.userId !== req.user!.id) {
+      throw new ForbiddenError(
+        "You can only remove images from your own posts"
+      );
+    }
+
+    await prisma.postAttachment.delete({ where: { id: attachment.id } });
+    await removeFiles([attachment.storageKey, attachment.thumbnailKey]);
+    await publishPostUpdate(attachment.postId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
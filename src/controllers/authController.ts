@@ -0,0 +1,152 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { assertNotSuspended } from "../middlewares/auth";
+import {
+  hashPassword,
+  verifyPassword,
+  signAccessToken,
+  generateRefreshToken,
+  hashRefreshToken,
+} from "../utils/auth";
+import { UnauthorizedError } from "../utils/errors";
+import {
+  loginRoute,
+  refreshRoute,
+  logoutRoute,
+  resetPasswordRoute,
+} from "../schemas/authSchemas";
+
+const prisma = new PrismaClient();
+
+// Issues a fresh access/refresh token pair for the given user
+const issueTokens = async (userId: number) => {
+  const { token, tokenHash, expiresAt } = generateRefreshToken();
+  await prisma.refreshToken.create({
+    data: { tokenHash, userId, expiresAt },
+  });
+  return { accessToken: signAccessToken(userId), refreshToken: token };
+};
+
+export const login = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { email, password } = loginRoute.input(req).body;
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email, deletedAt: null },
+    });
+    if (
+      !user ||
+      !user.passwordHash ||
+      !(await verifyPassword(password, user.passwordHash))
+    ) {
+      throw new UnauthorizedError("Invalid email or password");
+    }
+    assertNotSuspended(user.suspendedUntil);
+
+    const tokens = await issueTokens(user.id);
+    res.status(200).json({ success: true, data: tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refresh = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { refreshToken } = refreshRoute.input(req).body;
+  try {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashRefreshToken(refreshToken) },
+      include: {
+        user: { select: { deletedAt: true, suspendedUntil: true } },
+      },
+    });
+    if (
+      !stored ||
+      stored.revokedAt ||
+      stored.expiresAt < new Date() ||
+      stored.user.deletedAt
+    ) {
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+    assertNotSuspended(stored.user.suspendedUntil);
+
+    // Guard against two concurrent refreshes both rotating the same token
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+
+    const tokens = await issueTokens(stored.userId);
+    res.status(200).json({ success: true, data: tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { refreshToken } = logoutRoute.input(req).body;
+  try {
+    await prisma.refreshToken.updateMany({
+      where: { tokenHash: hashRefreshToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { token, password } = resetPasswordRoute.input(req).body;
+  try {
+    const stored = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashRefreshToken(token) },
+      include: { user: { select: { deletedAt: true } } },
+    });
+    if (
+      !stored ||
+      stored.usedAt ||
+      stored.expiresAt < new Date() ||
+      stored.user.deletedAt
+    ) {
+      throw new UnauthorizedError("Invalid or expired reset token");
+    }
+
+    const passwordHash = await hashPassword(password);
+    await prisma.$transaction(async (tx) => {
+      // Claiming the token first stops two concurrent requests both using it
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new UnauthorizedError("Invalid or expired reset token");
+      }
+      await tx.user.update({
+        where: { id: stored.userId },
+        data: { passwordHash },
+      });
+      await tx.refreshToken.deleteMany({ where: { userId: stored.userId } });
+    });
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,422 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  PrismaClient,
+  Prisma,
+  Board,
+  BoardRole,
+  BoardVisibility,
+  Post,
+} from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import { postInclude, presentPosts } from "../utils/posts";
+import { publishEvent, POSTS_CHANNEL } from "../utils/eventBus";
+import {
+  assertBoardContributor,
+  findVisibleBoard,
+  getBoardRole,
+  isPublicBoard,
+  visibleBoardWhere,
+} from "../utils/boards";
+import { ConflictError, ForbiddenError, NotFoundError } from "../utils/errors";
+import {
+  getBoardsRoute,
+  createBoardRoute,
+  getBoardRoute,
+  updateBoardRoute,
+  getBoardPostsRoute,
+  getBoardMembersRoute,
+  joinBoardRoute,
+  setBoardMemberRoute,
+  removeBoardMemberRoute,
+  updateBoardLayoutRoute,
+} from "../schemas/boardSchemas";
+
+const prisma = new PrismaClient();
+
+const memberInclude = {
+  user: { select: { id: true, username: true, avatarUrl: true } },
+};
+
+type LoadedMember = Prisma.BoardMemberGetPayload<{
+  include: typeof memberInclude;
+}>;
+
+const presentMember = ({ user, role, createdAt }: LoadedMember) => ({
+  userId: user.id,
+  username: user.username,
+  avatarUrl: user.avatarUrl,
+  role,
+  createdAt,
+});
+
+// Adds member counts and the viewer's own role to each board
+const presentBoards = async (boards: Board[], viewerId?: number) => {
+  const ids = boards.map((board) => board.id);
+  const [counts, roles] = await Promise.all([
+    prisma.boardMember.groupBy({
+      by: ["boardId"],
+      where: { boardId: { in: ids } },
+      _count: { _all: true },
+    }),
+    viewerId
+      ? prisma.boardMember.findMany({
+          where: { boardId: { in: ids }, userId: viewerId },
+        })
+      : [],
+  ]);
+  const memberCounts = new Map(
+    counts.map((group) => [group.boardId, group._count._all])
+  );
+  const viewerRoles = new Map(
+    roles.map((member) => [member.boardId, member.role])
+  );
+  return boards.map((board) => ({
+    ...board,
+    memberCount: memberCounts.get(board.id) ?? 0,
+    role: viewerRoles.get(board.id) ?? null,
+  }));
+};
+
+// Board settings and membership are managed by the board's owners
+const findOwnedBoard = async (req: Request, id: number) => {
+  const board = await findVisibleBoard(id, req.user);
+  const role = await getBoardRole(board.id, req.user!.id);
+  if (role !== BoardRole.OWNER) {
+    throw new ForbiddenError("Only board owners can manage this board");
+  }
+  return board;
+};
+
+const presentLayout = (post: Post) => ({
+  id: post.id,
+  boardId: post.boardId,
+  color: post.color,
+  x: post.x,
+  y: post.y,
+  width: post.width,
+  height: post.height,
+  rotation: post.rotation,
+  zIndex: post.zIndex,
+  layoutVersion: post.layoutVersion,
+});
+
+const countOwners = (boardId: number) =>
+  prisma.boardMember.count({ where: { boardId, role: BoardRole.OWNER } });
+
+export const getBoards = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const page = getBoardsRoute.input(req).query;
+  try {
+    const { data, pagination } = await paginate(
+      page,
+      visibleBoardWhere(req.user),
+      "asc",
+      (args) => prisma.board.findMany(args)
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentBoards(data, req.user?.id),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createBoard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { name, description, visibility } = createBoardRoute.input(req).body;
+  const userId = req.user!.id;
+  try {
+    const board = await prisma.board.create({
+      data: {
+        name,
+        description: description || null,
+        visibility,
+        members: { create: { userId, role: BoardRole.OWNER } },
+      },
+    });
+    const [data] = await presentBoards([board], userId);
+    res.status(201).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBoard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = getBoardRoute.input(req).params;
+  try {
+    const board = await findVisibleBoard(id, req.user);
+    const [data] = await presentBoards([board], req.user?.id);
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateBoard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = updateBoardRoute.input(req);
+  try {
+    const board = await findOwnedBoard(req, params.id);
+    const updated = await prisma.board.update({
+      where: { id: board.id },
+      data: {
+        name: body.name,
+        visibility: body.visibility,
+        ...(body.description !== undefined && {
+          description: body.description || null,
+        }),
+      },
+    });
+    const [data] = await presentBoards([updated], req.user!.id);
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBoardPosts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query } = getBoardPostsRoute.input(req);
+  const { includeDeleted, onlyDeleted, ...page } = query;
+  const moderator = isModerator(req.user);
+  if ((includeDeleted || onlyDeleted) && !moderator) {
+    throw new ForbiddenError("Only moderators can view deleted posts");
+  }
+  try {
+    const board = await findVisibleBoard(params.id, req.user);
+    let where: Prisma.PostWhereInput = { boardId: board.id };
+
+    if (onlyDeleted) {
+      where = { ...where, deletedAt: { not: null } };
+    } else if (!includeDeleted) {
+      where = { ...where, deletedAt: null };
+    }
+    if (!moderator) {
+      where = { ...where, hiddenAt: null };
+    }
+
+    const { data, pagination } = await paginate(page, where, "desc", (args) =>
+      prisma.post.findMany({ ...args, include: postInclude })
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentPosts(data, req.user),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBoardMembers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query: page } = getBoardMembersRoute.input(req);
+  try {
+    const board = await findVisibleBoard(params.id, req.user);
+    const { data, pagination } = await paginate(
+      page,
+      { boardId: board.id },
+      "asc",
+      (args) => prisma.boardMember.findMany({ ...args, include: memberInclude })
+    );
+    res.status(200).json({
+      success: true,
+      data: data.map(presentMember),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const joinBoard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = joinBoardRoute.input(req).params;
+  const userId = req.user!.id;
+  try {
+    const board = await findVisibleBoard(id, req.user);
+    if (board.visibility !== BoardVisibility.PUBLIC) {
+      throw new ForbiddenError(
+        "Private boards can only be joined when an owner adds you"
+      );
+    }
+    if (await getBoardRole(board.id, userId)) {
+      throw new ConflictError("You are already a member of this board");
+    }
+    const member = await prisma.boardMember.create({
+      data: { boardId: board.id, userId, role: BoardRole.MEMBER },
+      include: memberInclude,
+    });
+    res.status(201).json({ success: true, data: presentMember(member) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setBoardMember = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = setBoardMemberRoute.input(req);
+  try {
+    const board = await findOwnedBoard(req, params.id);
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId, deletedAt: null },
+    });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const current = await getBoardRole(board.id, user.id);
+    if (
+      current === BoardRole.OWNER &&
+      body.role !== BoardRole.OWNER &&
+      (await countOwners(board.id)) === 1
+    ) {
+      throw new ConflictError("The board's last owner cannot be demoted");
+    }
+    const member = await prisma.boardMember.upsert({
+      where: { boardId_userId: { boardId: board.id, userId: user.id } },
+      create: { boardId: board.id, userId: user.id, role: body.role },
+      update: { role: body.role },
+      include: memberInclude,
+    });
+    res
+      .status(current ? 200 : 201)
+      .json({ success: true, data: presentMember(member) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeBoardMember = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params } = removeBoardMemberRoute.input(req);
+  const leaving = params.userId === req.user!.id;
+  try {
+    const board = leaving
+      ? await findVisibleBoard(params.id, req.user)
+      : await findOwnedBoard(req, params.id);
+    const role = await getBoardRole(board.id, params.userId);
+    if (!role) {
+      throw new NotFoundError("The user is not a member of this board");
+    }
+    if (role === BoardRole.OWNER && (await countOwners(board.id)) === 1) {
+      throw new ConflictError("The board's last owner cannot leave");
+    }
+    await prisma.boardMember.delete({
+      where: {
+        boardId_userId: { boardId: board.id, userId: params.userId },
+      },
+    });
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateBoardLayout = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = updateBoardLayoutRoute.input(req);
+  const moderator = isModerator(req.user);
+  try {
+    await assertBoardContributor(
+      params.id,
+      req.user!,
+      "arrange notes on this board"
+    );
+    const notes = await prisma.$transaction(async (tx) => {
+      // Each write only lands if the note is still at the version the client
+      // saw; the row stays locked until commit, so a concurrent move of the
+      // same note waits and then fails the check. Locking in ID order keeps
+      // two overlapping requests from deadlocking.
+      const changes = [...body.notes].sort((a, b) => a.postId - b.postId);
+      const stale: number[] = [];
+      for (const { postId, version, ...layout } of changes) {
+        const { count } = await tx.post.updateMany({
+          where: {
+            id: postId,
+            boardId: params.id,
+            deletedAt: null,
+            ...(!moderator && { hiddenAt: null }),
+            layoutVersion: version,
+          },
+          data: { ...layout, layoutVersion: { increment: 1 } },
+        });
+        if (count === 0) {
+          stale.push(postId);
+        }
+      }
+
+      const ids = body.notes.map((note) => note.postId);
+      const current = await tx.post.findMany({
+        where: {
+          id: { in: ids },
+          boardId: params.id,
+          deletedAt: null,
+          ...(!moderator && { hiddenAt: null }),
+        },
+      });
+      const byId = new Map(current.map((post) => [post.id, post]));
+      // Throwing rolls back the changes already written
+      const missing = stale.find((id) => !byId.has(id));
+      if (missing !== undefined) {
+        throw new NotFoundError(`Note ${missing} is not on this board`);
+      }
+      if (stale.length > 0) {
+        throw new ConflictError(
+          "Some notes were changed by someone else; nothing was saved",
+          { conflicts: stale.map((id) => presentLayout(byId.get(id)!)) }
+        );
+      }
+      return ids.map((id) => byId.get(id)!);
+    });
+
+    const board = await prisma.board.findUniqueOrThrow({
+      where: { id: params.id },
+    });
+    const data = notes.map(presentLayout);
+    if (isPublicBoard(board)) {
+      for (const [index, note] of notes.entries()) {
+        if (!note.hiddenAt) {
+          publishEvent(POSTS_CHANNEL, "post.layout", data[index]);
+        }
+      }
+    }
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,261 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Bookmark, Post } from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import { postInclude, presentPosts } from "../utils/posts";
+import { visiblePostWhere } from "../utils/boards";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import {
+  getCollectionsRoute,
+  createCollectionRoute,
+  renameCollectionRoute,
+  deleteCollectionRoute,
+  getCollectionPostsRoute,
+  addBookmarkRoute,
+  removeBookmarkRoute,
+} from "../schemas/bookmarkSchemas";
+
+const prisma = new PrismaClient();
+
+const collectionInclude = { _count: { select: { bookmarks: true } } };
+
+const presentCollection = ({
+  userId,
+  _count,
+  ...collection
+}: {
+  id: number;
+  userId: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { bookmarks: number };
+}) => ({ ...collection, postCount: _count.bookmarks });
+
+// Collections are private, so someone else's looks the same as a missing one
+const findOwnCollection = async (id: number, userId: number) => {
+  const collection = await prisma.bookmarkCollection.findUnique({
+    where: { id },
+  });
+  if (!collection || collection.userId !== userId) {
+    throw new NotFoundError("Collection not found");
+  }
+  return collection;
+};
+
+const assertNameFree = async (
+  userId: number,
+  name: string,
+  exceptId?: number
+): Promise<void> => {
+  const existing = await prisma.bookmarkCollection.findUnique({
+    where: { userId_name: { userId, name } },
+  });
+  if (existing && existing.id !== exceptId) {
+    throw new ConflictError("You already have a collection with this name");
+  }
+};
+
+/**
+ * Pairs bookmarks with their posts. Posts deleted or hidden since they were
+ * saved, or on a board the viewer can no longer see, stay in the list,
+ * marked unavailable and without their content; moderators still see hidden
+ * posts, as they do elsewhere.
+ */
+const presentBookmarks = async (
+  bookmarks: (Bookmark & { post: Post })[],
+  viewer: Request["user"]
+) => {
+  const unavailableReason = (post: Post) =>
+    post.deletedAt
+      ? ("deleted" as const)
+      : post.hiddenAt && !isModerator(viewer)
+      ? ("hidden" as const)
+      : null;
+
+  const candidateIds = bookmarks
+    .filter((bookmark) => !unavailableReason(bookmark.post))
+    .map((bookmark) => bookmark.postId);
+  const posts = await prisma.post.findMany({
+    where: { id: { in: candidateIds }, ...visiblePostWhere(viewer) },
+    include: postInclude,
+  });
+  const presented = new Map(
+    (await presentPosts(posts, viewer)).map((post) => [post.id, post])
+  );
+
+  return bookmarks.map(({ post, ...bookmark }) => {
+    const reason =
+      unavailableReason(post) ??
+      (presented.has(post.id) ? null : ("private" as const));
+    return {
+      ...bookmark,
+      available: !reason,
+      unavailableReason: reason,
+      post: reason ? null : presented.get(post.id)!,
+    };
+  });
+};
+
+export const getCollections = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const page = getCollectionsRoute.input(req).query;
+  try {
+    const { data, pagination } = await paginate(
+      page,
+      { userId: req.user!.id },
+      "asc",
+      (args) =>
+        prisma.bookmarkCollection.findMany({
+          ...args,
+          include: collectionInclude,
+        })
+    );
+    res.status(200).json({
+      success: true,
+      data: data.map(presentCollection),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createCollection = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { name } = createCollectionRoute.input(req).body;
+  const userId = req.user!.id;
+  try {
+    await assertNameFree(userId, name);
+    const collection = await prisma.bookmarkCollection.create({
+      data: { userId, name },
+      include: collectionInclude,
+    });
+    res.status(201).json({ success: true, data: presentCollection(collection) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const renameCollection = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = renameCollectionRoute.input(req);
+  const userId = req.user!.id;
+  try {
+    const collection = await findOwnCollection(params.id, userId);
+    await assertNameFree(userId, body.name, collection.id);
+    const renamed = await prisma.bookmarkCollection.update({
+      where: { id: collection.id },
+      data: { name: body.name },
+      include: collectionInclude,
+    });
+    res.status(200).json({ success: true, data: presentCollection(renamed) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteCollection = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = deleteCollectionRoute.input(req).params;
+  try {
+    const collection = await findOwnCollection(id, req.user!.id);
+    await prisma.$transaction([
+      prisma.bookmark.deleteMany({ where: { collectionId: collection.id } }),
+      prisma.bookmarkCollection.delete({ where: { id: collection.id } }),
+    ]);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCollectionPosts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query: page } = getCollectionPostsRoute.input(req);
+  try {
+    const collection = await findOwnCollection(params.id, req.user!.id);
+    const { data, pagination } = await paginate(
+      page,
+      { collectionId: collection.id },
+      "desc",
+      (args) => prisma.bookmark.findMany({ ...args, include: { post: true } })
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentBookmarks(data, req.user),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addBookmark = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = addBookmarkRoute.input(req);
+  try {
+    const collection = await findOwnCollection(params.id, req.user!.id);
+    const post = await prisma.post.findUnique({
+      where: { id: body.postId, ...visiblePostWhere(req.user) },
+    });
+    if (!post || post.deletedAt || (post.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Post not found");
+    }
+    const existing = await prisma.bookmark.findUnique({
+      where: {
+        collectionId_postId: { collectionId: collection.id, postId: post.id },
+      },
+    });
+    if (existing) {
+      throw new ConflictError("The post is already in this collection");
+    }
+
+    const bookmark = await prisma.bookmark.create({
+      data: { collectionId: collection.id, postId: post.id },
+      include: { post: true },
+    });
+    const [data] = await presentBookmarks([bookmark], req.user);
+    res.status(201).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeBookmark = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params } = removeBookmarkRoute.input(req);
+  try {
+    const collection = await findOwnCollection(params.id, req.user!.id);
+    const { count } = await prisma.bookmark.deleteMany({
+      where: { collectionId: collection.id, postId: params.postId },
+    });
+    if (count === 0) {
+      throw new NotFoundError("The post is not in this collection");
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
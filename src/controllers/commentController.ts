@@ -1,355 +1,572 @@
 import { Request, Response, NextFunction } from "express";
-import { PrismaClient } from "@prisma/client";
+import {
+  PrismaClient,
+  Prisma,
+  ModerationActionType,
+  NotificationType,
+  Comment,
+} from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import { buildThreads, flattenThreads } from "../utils/commentThreads";
+import { getCommentReactionSummaries } from "../utils/reactions";
+import {
+  entityInclude,
+  syncCommentEntities,
+  withEntities,
+  EMPTY_ENTITIES,
+} from "../utils/entities";
+import { notify } from "../utils/notifications";
+import { visiblePostWhere } from "../utils/boards";
+import { recordCommentRevision, withEditState } from "../utils/revisions";
+import { applyContentPolicy, flagViolations } from "../utils/contentPolicy";
+import { publishEvent, postCommentsChannel } from "../utils/eventBus";
+import { streamChannel } from "../utils/sse";
+import {
+  newDeletionBatch,
+  restoreDeletionBatch,
+  publishAffectedContent,
+} from "../utils/softDelete";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+} from "../utils/errors";
+import {
+  createCommentRoute,
+  getCommentsRoute,
+  streamCommentsRoute,
+  getCommentRoute,
+  updateCommentRoute,
+  deleteCommentRoute,
+  restoreCommentRoute,
+  hideCommentRoute,
+  unhideCommentRoute,
+} from "../schemas/commentSchemas";
 
 const prisma = new PrismaClient();
 
-/**
- * @swagger
- * /posts/{postId}/comments:
- *   post:
- *     summary: Create a comment under a post
- *     tags: [Comments]
- *     parameters:
- *       - in: path
- *         name: postId
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - content
- *               - userId
- *             properties:
- *               content:
- *                 type: string
- *               userId:
- *                 type: integer
- *     responses:
- *       201:
- *         description: Comment created successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Comment'
- *       400:
- *         description: Content and userId are required
- *       404:
- *         description: Post or user not found
- */
 export const createComment = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { postId } = req.params;
-  const { content, userId } = req.body;
-  if (!content || !userId) {
-    res
-      .status(400)
-      .json({ success: false, message: "Content and userId are required" });
-    return;
-  }
+  const { params, body } = createCommentRoute.input(req);
+  const { parentId } = body;
+  const userId = req.user!.id;
   try {
     const post = await prisma.post.findUnique({
-      where: { id: parseInt(postId), deletedAt: null },
+      where: {
+        id: params.postId,
+        deletedAt: null,
+        ...visiblePostWhere(req.user),
+      },
     });
-    if (!post) {
-      res.status(404).json({ success: false, message: "Post not found" });
-      return;
+    if (!post || (post.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Post not found");
     }
-    const user = await prisma.user.findUnique({
-      where: { id: userId, deletedAt: null },
-    });
-    if (!user) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
+
+    let rootId: number | null = null;
+    let parentAuthorId: number | null = null;
+    if (parentId) {
+      const parent = await prisma.comment.findUnique({
+        where: {
+          id: parentId,
+          postId: post.id,
+          deletedAt: null,
+          hiddenAt: null,
+        },
+      });
+      if (!parent) {
+        throw new NotFoundError("Parent comment not found");
+      }
+      rootId = parent.rootId ?? parent.id;
+      parentAuthorId = parent.userId;
     }
+    const { content, flags } = await applyContentPolicy(body.content, {
+      kind: "comment",
+      userId,
+    });
+
+    const comment = await prisma.$transaction(async (tx) => {
+      const created = await tx.comment.create({
+        data: {
+          content,
+          userId,
+          postId: post.id,
+          parentId: parentId ?? null,
+          rootId,
+        },
+      });
+      const mentioned = await syncCommentEntities(tx, created.id, content);
 
-    const comment = await prisma.comment.create({
-      data: { content, userId, postId: parseInt(postId) },
+      if (parentAuthorId !== null) {
+        await notify(tx, {
+          type: NotificationType.COMMENT_REPLY,
+          recipientId: parentAuthorId,
+          actorId: userId,
+          postId: post.id,
+          commentId: parentId!,
+        });
+      }
+      // A post author replied to directly already hears about it above
+      if (post.userId !== parentAuthorId) {
+        await notify(tx, {
+          type: NotificationType.POST_COMMENT,
+          recipientId: post.userId,
+          actorId: userId,
+          postId: post.id,
+        });
+      }
+      for (const recipientId of mentioned) {
+        await notify(tx, {
+          type: NotificationType.MENTION,
+          recipientId,
+          actorId: userId,
+          postId: post.id,
+          commentId: created.id,
+        });
+      }
+      return tx.comment.findUniqueOrThrow({
+        where: { id: created.id },
+        include: entityInclude,
+      });
     });
-    res.status(201).json({ success: true, data: comment });
+    await flagViolations({ commentId: comment.id }, flags);
+    const data = withEditState(withEntities(comment));
+    publishEvent(postCommentsChannel(post.id), "comment.created", data);
+    res.status(201).json({ success: true, data });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{postId}/comments:
- *   get:
- *     summary: Retrieve all comments under a post
- *     tags: [Comments]
- *     parameters:
- *       - in: path
- *         name: postId
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *       - in: query
- *         name: includeDeleted
- *         schema:
- *           type: string
- *           enum: [true, false]
- *         description: Include both active and soft-deleted comments
- *       - in: query
- *         name: onlyDeleted
- *         schema:
- *           type: string
- *           enum: [true, false]
- *         description: Return only soft-deleted comments
- *     responses:
- *       200:
- *         description: List of comments
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Comment'
- */
 export const getComments = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { postId } = req.params;
-  const { includeDeleted, onlyDeleted } = req.query as {
-    includeDeleted?: string;
-    onlyDeleted?: string;
-  };
+  const { params, query } = getCommentsRoute.input(req);
+  const { includeDeleted, onlyDeleted, format, ...page } = query;
+  const moderator = isModerator(req.user);
+  if ((includeDeleted || onlyDeleted) && !moderator) {
+    throw new ForbiddenError("Only moderators can view deleted comments");
+  }
   try {
-    let where: any = { postId: parseInt(postId) };
+    const post = await prisma.post.findUnique({
+      where: { id: params.postId, ...visiblePostWhere(req.user) },
+    });
+    if (!post || (post.hiddenAt && !moderator)) {
+      throw new NotFoundError("Post not found");
+    }
+
+    // Which comments the caller asked for; ancestors of a match are kept too
+    let where: Prisma.CommentWhereInput = {};
 
-    if (onlyDeleted === "true") {
-      where = { ...where, deletedAt: { not: null } };
-    } else if (includeDeleted !== "true") {
-      where = { ...where, deletedAt: null };
+    if (onlyDeleted) {
+      where = { deletedAt: { not: null } };
+    } else if (!includeDeleted) {
+      where = { deletedAt: null };
+    }
+    if (!moderator) {
+      where = { ...where, hiddenAt: null };
     }
+    const matches = (comment: Comment) =>
+      (onlyDeleted
+        ? !!comment.deletedAt
+        : includeDeleted || !comment.deletedAt) &&
+      (moderator || !comment.hiddenAt);
+
+    const rootWhere = {
+      postId: post.id,
+      parentId: null,
+      OR: [where, { threadReplies: { some: where } }],
+    };
+    const { data: roots, pagination } = await paginate(
+      page,
+      rootWhere,
+      "asc",
+      (args) => prisma.comment.findMany({ ...args, include: entityInclude })
+    );
+    const replies = await prisma.comment.findMany({
+      where: { rootId: { in: roots.map((root) => root.id) } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      include: entityInclude,
+    });
+
+    const summaries = await getCommentReactionSummaries(
+      [...roots, ...replies].map((comment) => comment.id),
+      req.user?.id
+    );
+    const present = (comment: (typeof roots)[number]) => ({
+      ...withEditState(withEntities(comment)),
+      reactions: summaries.get(comment.id)!,
+    });
+
+    const threads = buildThreads(roots.map(present), replies.map(present), {
+      matches,
+      revealAll: includeDeleted || onlyDeleted,
+      redact: (node) => ({ ...node, entities: EMPTY_ENTITIES }),
+    });
+    const data = format === "tree" ? threads : flattenThreads(threads);
+    res.status(200).json({ success: true, data, pagination });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const comments = await prisma.comment.findMany({ where });
-    res.status(200).json({ success: true, data: comments });
+export const streamComments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { postId } = streamCommentsRoute.input(req).params;
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: postId, deletedAt: null, ...visiblePostWhere(req.user) },
+    });
+    if (!post || (post.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Post not found");
+    }
+    await streamChannel(req, res, postCommentsChannel(post.id));
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{postId}/comments/{id}:
- *   get:
- *     summary: Retrieve a single comment
- *     tags: [Comments]
- *     parameters:
- *       - in: path
- *         name: postId
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The comment ID
- *     responses:
- *       200:
- *         description: Comment details
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Comment'
- *       404:
- *         description: Comment not found or deleted
- */
 export const getComment = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { postId, id } = req.params;
+  const { postId, id } = getCommentRoute.input(req).params;
   try {
+    const post = await prisma.post.findUnique({
+      where: { id: postId, ...visiblePostWhere(req.user) },
+    });
+    if (!post || (post.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Post not found");
+    }
     const comment = await prisma.comment.findUnique({
-      where: { id: parseInt(id), postId: parseInt(postId) },
+      where: { id, postId: post.id },
       include: {
         user: { select: { id: true, username: true, avatarUrl: true } },
+        ...entityInclude,
       },
     });
-    if (!comment || comment.deletedAt) {
-      res.status(404).json({ success: false, message: "Comment not found" });
-      return;
+    if (
+      !comment ||
+      comment.deletedAt ||
+      (comment.hiddenAt && !isModerator(req.user))
+    ) {
+      throw new NotFoundError("Comment not found");
     }
-    res.status(200).json({ success: true, data: comment });
+    const summaries = await getCommentReactionSummaries(
+      [comment.id],
+      req.user?.id
+    );
+    res.status(200).json({
+      success: true,
+      data: {
+        ...withEditState(withEntities(comment)),
+        reactions: summaries.get(comment.id),
+      },
+    });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{postId}/comments/{id}:
- *   put:
- *     summary: Update a comment
- *     tags: [Comments]
- *     parameters:
- *       - in: path
- *         name: postId
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The comment ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - userId
- *             properties:
- *               content:
- *                 type: string
- *               userId:
- *                 type: integer
- *     responses:
- *       200:
- *         description: Comment updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Comment'
- *       403:
- *         description: Forbidden - not the comment owner
- *       404:
- *         description: Comment not found or deleted
- */
 export const updateComment = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { postId, id } = req.params;
-  const { content, userId } = req.body;
+  const { params, body } = updateCommentRoute.input(req);
+  const { content } = body;
+  const userId = req.user!.id;
   try {
     const comment = await prisma.comment.findUnique({
-      where: { id: parseInt(id), postId: parseInt(postId) },
+      where: { id: params.id, postId: params.postId },
     });
     if (!comment || comment.deletedAt) {
-      res.status(404).json({ success: false, message: "Comment not found" });
-      return;
+      throw new NotFoundError("Comment not found");
     }
     if (comment.userId !== userId) {
-      res
-        .status(403)
-        .json({
-          success: false,
-          message: "You can only update your own comments",
-        });
-      return;
+      throw new ForbiddenError("You can only update your own comments");
     }
+    const filtered = content
+      ? await applyContentPolicy(content, {
+          kind: "comment",
+          userId,
+          id: comment.id,
+        })
+      : null;
 
-    const updatedComment = await prisma.comment.update({
-      where: { id: parseInt(id) },
-      data: { content: content || comment.content },
+    const updatedComment = await prisma.$transaction(async (tx) => {
+      // Only real content changes count as edits and enter the history
+      const edited = !!filtered && filtered.content !== comment.content;
+      if (edited) {
+        await recordCommentRevision(tx, comment);
+      }
+      const updated = await tx.comment.update({
+        where: { id: comment.id },
+        data: edited
+          ? {
+              content: filtered.content,
+              editCount: { increment: 1 },
+              editedAt: new Date(),
+            }
+          : {},
+      });
+      // Edits re-extract hashtags and mentions from the new content
+      const mentioned = await syncCommentEntities(
+        tx,
+        updated.id,
+        updated.content
+      );
+      for (const recipientId of mentioned) {
+        await notify(tx, {
+          type: NotificationType.MENTION,
+          recipientId,
+          actorId: userId,
+          postId: updated.postId,
+          commentId: updated.id,
+        });
+      }
+      return tx.comment.findUniqueOrThrow({
+        where: { id: updated.id },
+        include: entityInclude,
+      });
     });
-    res.status(200).json({ success: true, data: updatedComment });
+    await flagViolations(
+      { commentId: updatedComment.id },
+      filtered?.flags ?? []
+    );
+    const data = withEditState(withEntities(updatedComment));
+    if (!updatedComment.hiddenAt) {
+      publishEvent(
+        postCommentsChannel(updatedComment.postId),
+        "comment.updated",
+        data
+      );
+    }
+    res.status(200).json({ success: true, data });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{postId}/comments/{id}:
- *   delete:
- *     summary: Soft-delete a comment
- *     tags: [Comments]
- *     parameters:
- *       - in: path
- *         name: postId
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The comment ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - userId
- *             properties:
- *               userId:
- *                 type: integer
- *     responses:
- *       200:
- *         description: Comment soft-deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Comment'
- *       403:
- *         description: Forbidden - not the comment owner
- *       404:
- *         description: Comment not found or already deleted
- */
 export const deleteComment = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { postId, id } = req.params;
-  const { userId } = req.body;
+  const { params, body } = deleteCommentRoute.input(req);
+  const { reason } = body;
+  const userId = req.user!.id;
   try {
     const comment = await prisma.comment.findUnique({
-      where: { id: parseInt(id), postId: parseInt(postId) },
+      where: { id: params.id, postId: params.postId },
     });
     if (!comment || comment.deletedAt) {
-      res.status(404).json({ success: false, message: "Comment not found" });
-      return;
+      throw new NotFoundError("Comment not found");
     }
-    if (comment.userId !== userId) {
-      res
-        .status(403)
-        .json({
-          success: false,
-          message: "You can only delete your own comments",
-        });
-      return;
+    const isOwner = comment.userId === userId;
+    if (!isOwner && !isModerator(req.user)) {
+      throw new ForbiddenError("You can only delete your own comments");
+    }
+    if (!isOwner && !reason) {
+      throw new BadRequestError(
+        "A reason is required when deleting another user's comment"
+      );
     }
 
-    const deletedComment = await prisma.comment.update({
-      where: { id: parseInt(id) },
-      data: { deletedAt: new Date() },
+    // Replies are not cascaded to: they stay under a "[deleted]" placeholder
+    const batch = newDeletionBatch();
+    const [deletedComment] = await prisma.$transaction([
+      prisma.comment.update({
+        where: { id: comment.id },
+        data: batch,
+      }),
+      ...(isOwner
+        ? []
+        : [
+            prisma.moderationAction.create({
+              data: {
+                action: ModerationActionType.DELETE,
+                reason: reason!,
+                moderatorId: userId,
+                commentId: comment.id,
+                deletionBatchId: batch.deletionBatchId,
+              },
+            }),
+          ]),
+    ]);
+    publishEvent(postCommentsChannel(deletedComment.postId), "comment.deleted", {
+      id: deletedComment.id,
+      postId: deletedComment.postId,
     });
     res.status(200).json({ success: true, data: deletedComment });
   } catch (error) {
     next(error);
   }
 };
+
+export const restoreComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = restoreCommentRoute.input(req);
+  const { reason } = body;
+  const userId = req.user!.id;
+  try {
+    const comment = await prisma.comment.findUnique({
+      where: { id: params.id, postId: params.postId },
+      include: {
+        user: { select: { deletedAt: true } },
+        post: { select: { deletedAt: true } },
+      },
+    });
+    if (!comment || !comment.deletedAt) {
+      throw new NotFoundError("Deleted comment not found");
+    }
+    const isOwner = comment.userId === userId;
+    const moderator = isModerator(req.user);
+    if (!isOwner && !moderator) {
+      throw new ForbiddenError("You can only restore your own comments");
+    }
+    if (!isOwner && !reason) {
+      throw new BadRequestError(
+        "A reason is required when restoring another user's comment"
+      );
+    }
+    if (comment.post.deletedAt || comment.user.deletedAt) {
+      throw new ConflictError(
+        comment.post.deletedAt
+          ? "The comment's post is deleted; restore the post first"
+          : "The comment's author is deleted; restore the user first"
+      );
+    }
+    if (!moderator) {
+      const moderated = await prisma.moderationAction.findFirst({
+        where: {
+          action: ModerationActionType.DELETE,
+          deletionBatchId: comment.deletionBatchId,
+        },
+      });
+      if (moderated) {
+        throw new ForbiddenError(
+          "Comments deleted by a moderator can only be restored by a moderator"
+        );
+      }
+    }
+
+    const [restoredComment, affected] = await prisma.$transaction(
+      async (tx) => {
+        const affected = await restoreDeletionBatch(
+          tx,
+          comment.deletionBatchId!
+        );
+        if (!isOwner) {
+          await tx.moderationAction.create({
+            data: {
+              action: ModerationActionType.RESTORE,
+              reason: reason!,
+              moderatorId: userId,
+              commentId: comment.id,
+            },
+          });
+        }
+        const restored = await tx.comment.findUniqueOrThrow({
+          where: { id: comment.id },
+        });
+        return [restored, affected] as const;
+      }
+    );
+    publishAffectedContent(affected, "restored");
+    res.status(200).json({ success: true, data: restoredComment });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const hideComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await setCommentHidden(req, res, next, true);
+};
+
+export const unhideComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await setCommentHidden(req, res, next, false);
+};
+
+const setCommentHidden = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  hidden: boolean
+): Promise<void> => {
+  const { params, body } = (
+    hidden ? hideCommentRoute : unhideCommentRoute
+  ).input(req);
+  const { reason } = body;
+  try {
+    const comment = await prisma.comment.findUnique({
+      where: { id: params.id, postId: params.postId },
+    });
+    if (!comment || comment.deletedAt) {
+      throw new NotFoundError("Comment not found");
+    }
+    if (!!comment.hiddenAt === hidden) {
+      throw new ConflictError(
+        hidden ? "Comment is already hidden" : "Comment is not hidden"
+      );
+    }
+
+    const [updatedComment] = await prisma.$transaction([
+      prisma.comment.update({
+        where: { id: comment.id },
+        data: { hiddenAt: hidden ? new Date() : null },
+      }),
+      prisma.moderationAction.create({
+        data: {
+          action: hidden
+            ? ModerationActionType.HIDE
+            : ModerationActionType.UNHIDE,
+          reason,
+          moderatorId: req.user!.id,
+          commentId: comment.id,
+        },
+      }),
+    ]);
+    const channel = postCommentsChannel(updatedComment.postId);
+    if (hidden) {
+      publishEvent(channel, "comment.hidden", {
+        id: updatedComment.id,
+        postId: updatedComment.postId,
+      });
+    } else {
+      const loaded = await prisma.comment.findUniqueOrThrow({
+        where: { id: updatedComment.id },
+        include: entityInclude,
+      });
+      publishEvent(
+        channel,
+        "comment.unhidden",
+        withEditState(withEntities(loaded))
+      );
+    }
+    res.status(200).json({ success: true, data: updatedComment });
+  } catch (error) {
+    next(error);
+  }
+};
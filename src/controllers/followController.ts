@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { paginate } from "../utils/pagination";
+import { BadRequestError, NotFoundError, ConflictError } from "../utils/errors";
+import {
+  followUserRoute,
+  unfollowUserRoute,
+  getFollowersRoute,
+  getFollowingRoute,
+} from "../schemas/followSchemas";
+
+const prisma = new PrismaClient();
+
+const publicUserFields = {
+  id: true,
+  username: true,
+  avatarUrl: true,
+  avatarTag: true,
+};
+
+export const followUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const followingId = followUserRoute.input(req).params.id;
+  const followerId = req.user!.id;
+  if (followerId === followingId) {
+    throw new BadRequestError("You cannot follow yourself");
+  }
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: followingId, deletedAt: null },
+    });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    const existing = await prisma.follow.findUnique({
+      where: { followerId_followingId: { followerId, followingId } },
+    });
+    if (existing) {
+      throw new ConflictError("Already following this user");
+    }
+
+    const follow = await prisma.follow.create({
+      data: { followerId, followingId },
+    });
+    res.status(201).json({ success: true, data: follow });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unfollowUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = unfollowUserRoute.input(req).params;
+  const followerId = req.user!.id;
+  try {
+    const { count } = await prisma.follow.deleteMany({
+      where: { followerId, followingId: id },
+    });
+    if (count === 0) {
+      throw new NotFoundError("You are not following this user");
+    }
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getFollowers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await listFollows(req, res, next, "followers");
+};
+
+export const getFollowing = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await listFollows(req, res, next, "following");
+};
+
+const listFollows = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  side: "followers" | "following"
+): Promise<void> => {
+  const { params, query: page } = (
+    side === "followers" ? getFollowersRoute : getFollowingRoute
+  ).input(req);
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id, deletedAt: null },
+    });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    // Deleted accounts drop out of follower/following lists
+    const where =
+      side === "followers"
+        ? { followingId: user.id, follower: { deletedAt: null } }
+        : { followerId: user.id, following: { deletedAt: null } };
+    const { data, pagination } = await paginate(page, where, "desc", (args) =>
+      prisma.follow.findMany({
+        ...args,
+        include: {
+          follower: { select: publicUserFields },
+          following: { select: publicUserFields },
+        },
+      })
+    );
+    res.status(200).json({
+      success: true,
+      data: data.map((follow) => ({
+        ...(side === "followers" ? follow.follower : follow.following),
+        followedAt: follow.createdAt,
+      })),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,409 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { paginate } from "../utils/pagination";
+import { withEditState } from "../utils/revisions";
+import { newDeletionBatch } from "../utils/softDelete";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+import {
+  getConversationsRoute,
+  createConversationRoute,
+  getConversationRoute,
+  getMessagesRoute,
+  sendMessageRoute,
+  updateMessageRoute,
+  deleteMessageRoute,
+  markConversationReadRoute,
+} from "../schemas/messageSchemas";
+
+const prisma = new PrismaClient();
+
+const conversationInclude = {
+  members: {
+    include: {
+      user: { select: { id: true, username: true, avatarUrl: true } },
+    },
+    orderBy: { joinedAt: "asc" as const },
+  },
+  messages: {
+    where: { deletedAt: null },
+    orderBy: [{ createdAt: "desc" as const }, { id: "desc" as const }],
+    take: 1,
+  },
+};
+
+type LoadedConversation = Prisma.ConversationGetPayload<{
+  include: typeof conversationInclude;
+}>;
+
+type LoadedMember = LoadedConversation["members"][number];
+
+const presentMember = ({ user, ...member }: LoadedMember) => ({
+  userId: user.id,
+  username: user.username,
+  avatarUrl: user.avatarUrl,
+  lastReadMessageId: member.lastReadMessageId,
+  lastReadAt: member.lastReadAt,
+  joinedAt: member.joinedAt,
+});
+
+/**
+ * Counts, per conversation, the messages from other members that come
+ * after the user's read receipt.
+ */
+const getUnreadCounts = async (
+  userId: number,
+  conversationIds: number[]
+): Promise<Map<number, number>> => {
+  if (conversationIds.length === 0) {
+    return new Map();
+  }
+  const rows = await prisma.$queryRaw<
+    { conversationId: number; unread: number }[]
+  >`
+    SELECT m."conversationId", COUNT(*)::int AS "unread"
+    FROM "Message" m
+    JOIN "ConversationMember" cm
+      ON cm."conversationId" = m."conversationId" AND cm."userId" = ${userId}
+    WHERE m."conversationId" = ANY(${conversationIds})
+      AND m."deletedAt" IS NULL
+      AND m."senderId" <> ${userId}
+      AND m."id" > COALESCE(cm."lastReadMessageId", 0)
+    GROUP BY m."conversationId"
+  `;
+  return new Map(rows.map((row) => [row.conversationId, row.unread]));
+};
+
+const presentConversations = async (
+  conversations: LoadedConversation[],
+  userId: number
+) => {
+  const unread = await getUnreadCounts(
+    userId,
+    conversations.map((conversation) => conversation.id)
+  );
+  return conversations.map(({ members, messages, ...conversation }) => ({
+    ...conversation,
+    members: members.map(presentMember),
+    lastMessage: messages[0] ? withEditState(messages[0]) : null,
+    unreadCount: unread.get(conversation.id) ?? 0,
+  }));
+};
+
+// Conversations are private, so one the user is not in looks missing
+const findMembership = async (conversationId: number, userId: number) => {
+  const member = await prisma.conversationMember.findUnique({
+    where: { conversationId_userId: { conversationId, userId } },
+  });
+  if (!member) {
+    throw new NotFoundError("Conversation not found");
+  }
+  return member;
+};
+
+// A live message in the conversation that only its sender may change
+const findOwnMessage = async (
+  conversationId: number,
+  messageId: number,
+  userId: number,
+  verb: string
+) => {
+  await findMembership(conversationId, userId);
+  const message = await prisma.message.findUnique({
+    where: { id: messageId, conversationId },
+  });
+  if (!message || message.deletedAt) {
+    throw new NotFoundError("Message not found");
+  }
+  if (message.senderId !== userId) {
+    throw new ForbiddenError(`You can only ${verb} your own messages`);
+  }
+  return message;
+};
+
+export const getConversations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const page = getConversationsRoute.input(req).query;
+  const userId = req.user!.id;
+  try {
+    const { data, pagination } = await paginate(
+      page,
+      { members: { some: { userId } } },
+      "desc",
+      (args) =>
+        prisma.conversation.findMany({ ...args, include: conversationInclude }),
+      "lastMessageAt"
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentConversations(data, userId),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUnreadMessageCount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = req.user!.id;
+  try {
+    const memberships = await prisma.conversationMember.findMany({
+      where: { userId },
+      select: { conversationId: true },
+    });
+    const counts = await getUnreadCounts(
+      userId,
+      memberships.map((member) => member.conversationId)
+    );
+    const unread = [...counts.values()].reduce((sum, n) => sum + n, 0);
+    res.status(200).json({ success: true, data: { unread } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createConversation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { userIds, title } = createConversationRoute.input(req).body;
+  const userId = req.user!.id;
+  const others = [...new Set(userIds)].filter((id) => id !== userId);
+  if (others.length === 0) {
+    throw new BadRequestError("Add at least one other user");
+  }
+  try {
+    const found = await prisma.user.count({
+      where: { id: { in: others }, deletedAt: null },
+    });
+    if (found !== others.length) {
+      throw new NotFoundError("User not found");
+    }
+
+    const isGroup = others.length > 1 || title !== undefined;
+    // Two users share a single one-to-one conversation, keyed by the pair
+    const directKey = isGroup
+      ? null
+      : [userId, others[0]].sort((a, b) => a - b).join(":");
+    const findDirect = (key: string) =>
+      prisma.conversation.findUnique({
+        where: { directKey: key },
+        include: conversationInclude,
+      });
+
+    let status = 200;
+    let conversation = directKey ? await findDirect(directKey) : null;
+    if (!conversation) {
+      try {
+        conversation = await prisma.conversation.create({
+          data: {
+            title: title ?? null,
+            isGroup,
+            directKey,
+            members: {
+              create: [userId, ...others].map((id) => ({ userId: id })),
+            },
+          },
+          include: conversationInclude,
+        });
+        status = 201;
+      } catch (error) {
+        // A concurrent request opened the same one-to-one conversation first
+        if (
+          !directKey ||
+          !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+          error.code !== "P2002"
+        ) {
+          throw error;
+        }
+        conversation = await findDirect(directKey);
+        if (!conversation) {
+          throw error;
+        }
+      }
+    }
+    const [data] = await presentConversations([conversation], userId);
+    res.status(status).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getConversation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = getConversationRoute.input(req).params;
+  const userId = req.user!.id;
+  try {
+    await findMembership(id, userId);
+    const conversation = await prisma.conversation.findUniqueOrThrow({
+      where: { id },
+      include: conversationInclude,
+    });
+    const [data] = await presentConversations([conversation], userId);
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMessages = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query: page } = getMessagesRoute.input(req);
+  try {
+    await findMembership(params.id, req.user!.id);
+    const { data, pagination } = await paginate(
+      page,
+      { conversationId: params.id, deletedAt: null },
+      "desc",
+      (args) => prisma.message.findMany(args)
+    );
+    res.status(200).json({
+      success: true,
+      data: data.map(withEditState),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const sendMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = sendMessageRoute.input(req);
+  const userId = req.user!.id;
+  try {
+    const member = await findMembership(params.id, userId);
+    const message = await prisma.$transaction(async (tx) => {
+      const created = await tx.message.create({
+        data: {
+          conversationId: params.id,
+          senderId: userId,
+          content: body.content,
+        },
+      });
+      await tx.conversation.update({
+        where: { id: params.id },
+        data: { lastMessageAt: created.createdAt },
+      });
+      // Whoever writes has read everything before it
+      await tx.conversationMember.update({
+        where: { id: member.id },
+        data: { lastReadMessageId: created.id, lastReadAt: created.createdAt },
+      });
+      return created;
+    });
+    res.status(201).json({ success: true, data: withEditState(message) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = updateMessageRoute.input(req);
+  try {
+    const message = await findOwnMessage(
+      params.id,
+      params.messageId,
+      req.user!.id,
+      "edit"
+    );
+    const updated =
+      body.content === message.content
+        ? message
+        : await prisma.message.update({
+            where: { id: message.id },
+            data: {
+              content: body.content,
+              editCount: { increment: 1 },
+              editedAt: new Date(),
+            },
+          });
+    res.status(200).json({ success: true, data: withEditState(updated) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteMessage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params } = deleteMessageRoute.input(req);
+  try {
+    const message = await findOwnMessage(
+      params.id,
+      params.messageId,
+      req.user!.id,
+      "delete"
+    );
+    const deleted = await prisma.message.update({
+      where: { id: message.id },
+      data: newDeletionBatch(),
+    });
+    res.status(200).json({ success: true, data: withEditState(deleted) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markConversationRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = markConversationReadRoute.input(req);
+  try {
+    const member = await findMembership(params.id, req.user!.id);
+    const message = await prisma.message.findFirst({
+      where: {
+        conversationId: params.id,
+        ...(body.messageId !== undefined && { id: body.messageId }),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    });
+    if (body.messageId !== undefined && !message) {
+      throw new NotFoundError("Message not found");
+    }
+
+    // Receipts only move forward, so a stale client cannot unread messages
+    const advances =
+      !!message &&
+      (member.lastReadMessageId === null ||
+        message.id > member.lastReadMessageId);
+    const updated = await prisma.conversationMember.update({
+      where: { id: member.id },
+      data: advances
+        ? { lastReadMessageId: message.id, lastReadAt: new Date() }
+        : {},
+      include: conversationInclude.members.include,
+    });
+    res.status(200).json({ success: true, data: presentMember(updated) });
+  } catch (error) {
+    next(error);
+  }
+};
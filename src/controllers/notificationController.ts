@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { paginate } from "../utils/pagination";
+import { describeNotification } from "../utils/notifications";
+import { visiblePostWhere } from "../utils/boards";
+import { ForbiddenError, NotFoundError } from "../utils/errors";
+import {
+  getNotificationsRoute,
+  getUnreadCountRoute,
+  markNotificationReadRoute,
+  markAllNotificationsReadRoute,
+} from "../schemas/notificationSchemas";
+
+const prisma = new PrismaClient();
+
+// How many actor usernames to return with each notification group
+const RECENT_ACTORS = 3;
+
+// Notifications about deleted or hidden content, or content on boards the
+// recipient cannot see, are not shown or counted
+const visibleSource = (req: Request) => ({
+  AND: [
+    {
+      OR: [
+        { postId: null },
+        {
+          post: {
+            deletedAt: null,
+            hiddenAt: null,
+            ...visiblePostWhere(req.user),
+          },
+        },
+      ],
+    },
+    {
+      OR: [
+        { commentId: null },
+        { comment: { deletedAt: null, hiddenAt: null } },
+      ],
+    },
+  ],
+});
+
+// Notification inboxes are private to their owner
+const assertOwnInbox = (req: Request, userId: number): void => {
+  if (req.user!.id !== userId) {
+    throw new ForbiddenError("You can only access your own notifications");
+  }
+};
+
+export const getNotifications = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query } = getNotificationsRoute.input(req);
+  const { unreadOnly, ...page } = query;
+  assertOwnInbox(req, params.id);
+  try {
+    let where: Prisma.NotificationWhereInput = {
+      recipientId: req.user!.id,
+      ...visibleSource(req),
+    };
+    if (unreadOnly) {
+      where = { ...where, readAt: null };
+    }
+
+    const { data, pagination } = await paginate(
+      page,
+      where,
+      "desc",
+      (args) =>
+        prisma.notification.findMany({
+          ...args,
+          include: {
+            actors: {
+              orderBy: { createdAt: "desc" },
+              take: RECENT_ACTORS,
+              include: {
+                actor: {
+                  select: { id: true, username: true, avatarUrl: true },
+                },
+              },
+            },
+            _count: { select: { actors: true } },
+          },
+        }),
+      "latestAt"
+    );
+    res.status(200).json({
+      success: true,
+      data: data.map(({ actors, _count, groupKey, ...notification }) => ({
+        ...notification,
+        actors: actors.map(({ actor }) => actor),
+        actorCount: _count.actors,
+        message: describeNotification(
+          notification.type,
+          actors.map(({ actor }) => actor.username),
+          _count.actors
+        ),
+      })),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUnreadCount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  assertOwnInbox(req, getUnreadCountRoute.input(req).params.id);
+  try {
+    const unread = await prisma.notification.count({
+      where: {
+        recipientId: req.user!.id,
+        readAt: null,
+        ...visibleSource(req),
+      },
+    });
+    res.status(200).json({ success: true, data: { unread } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markNotificationRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id, notificationId } = markNotificationReadRoute.input(req).params;
+  assertOwnInbox(req, id);
+  try {
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId, recipientId: req.user!.id },
+    });
+    if (!notification) {
+      throw new NotFoundError("Notification not found");
+    }
+
+    const updated = notification.readAt
+      ? notification
+      : await prisma.notification.update({
+          where: { id: notification.id },
+          data: { readAt: new Date() },
+        });
+    res.status(200).json({ success: true, data: updated });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markAllNotificationsRead = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  assertOwnInbox(req, markAllNotificationsReadRoute.input(req).params.id);
+  try {
+    const { count } = await prisma.notification.updateMany({
+      where: { recipientId: req.user!.id, readAt: null },
+      data: { readAt: new Date() },
+    });
+    res.status(200).json({ success: true, data: { updated: count } });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,315 +1,571 @@
 import { Request, Response, NextFunction } from "express";
-import { PrismaClient } from "@prisma/client";
+import {
+  PrismaClient,
+  Prisma,
+  ModerationActionType,
+  NotificationType,
+  ShareType,
+  BoardVisibility,
+} from "@prisma/client";
+import { AuthUser, isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import { syncPostEntities } from "../utils/entities";
+import { postInclude, presentPosts } from "../utils/posts";
+import {
+  assertBoardContributor,
+  isPublicBoard,
+  visiblePostWhere,
+} from "../utils/boards";
+import { notify } from "../utils/notifications";
+import { recordPostRevision } from "../utils/revisions";
+import { applyContentPolicy, flagViolations } from "../utils/contentPolicy";
+import { publishEvent, POSTS_CHANNEL } from "../utils/eventBus";
+import { streamChannel } from "../utils/sse";
+import {
+  newDeletionBatch,
+  softDeletePost,
+  restoreDeletionBatch,
+  publishAffectedContent,
+} from "../utils/softDelete";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+} from "../utils/errors";
+import {
+  createPostRoute,
+  getPostsRoute,
+  getFeedRoute,
+  getPostRoute,
+  getPostQuotesRoute,
+  updatePostRoute,
+  deletePostRoute,
+  restorePostRoute,
+  hidePostRoute,
+  unhidePostRoute,
+} from "../schemas/postSchemas";
 
 const prisma = new PrismaClient();
 
 /**
- * @swagger
- * /posts:
- *   post:
- *     summary: Create a new post
- *     tags: [Posts]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - content
- *               - userId
- *             properties:
- *               content:
- *                 type: string
- *               userId:
- *                 type: integer
- *     responses:
- *       201:
- *         description: Post created successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Post'
- *       400:
- *         description: Content and userId are required
- *       404:
- *         description: User not found
+ * Works out what a new post on the given board shares. Sharing a repost
+ * shares the post it reposted, so reposts never chain; quotes can be quoted
+ * in turn. Posts on private boards stay on their board.
  */
+const resolveShare = async (
+  sharedPostId: number,
+  user: AuthUser,
+  boardId: number,
+  shareType: ShareType
+) => {
+  const where = visiblePostWhere(user);
+  let shared = await prisma.post.findUnique({
+    where: { id: sharedPostId, ...where },
+    include: { board: true },
+  });
+  if (shared?.shareType === ShareType.REPOST && !shared.deletedAt) {
+    shared = await prisma.post.findUnique({
+      where: { id: shared.sharedPostId!, ...where },
+      include: { board: true },
+    });
+  }
+  if (!shared || shared.deletedAt || shared.hiddenAt) {
+    throw new NotFoundError("Shared post not found");
+  }
+  if (
+    shared.board.visibility === BoardVisibility.PRIVATE &&
+    shared.boardId !== boardId
+  ) {
+    throw new ForbiddenError(
+      "Posts on a private board can only be shared on that board"
+    );
+  }
+
+  if (shareType === ShareType.REPOST) {
+    const existing = await prisma.post.findFirst({
+      where: {
+        userId: user.id,
+        sharedPostId: shared.id,
+        shareType: ShareType.REPOST,
+        deletedAt: null,
+      },
+    });
+    if (existing) {
+      throw new ConflictError("You have already reposted this post");
+    }
+  }
+  return { sharedPostId: shared.id, shareType };
+};
+
 export const createPost = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const { content, userId } = req.body;
-  if (!content || !userId) {
-    res
-      .status(400)
-      .json({ success: false, message: "Content and userId are required" });
-    return;
-  }
+  const body = createPostRoute.input(req).body;
+  const userId = req.user!.id;
   try {
-    const user = await prisma.user.findUnique({
-      where: { id: userId, deletedAt: null },
+    await assertBoardContributor(
+      body.boardId,
+      req.user!,
+      "post to this board"
+    );
+    // A share without content of its own is a plain repost
+    const share =
+      body.sharedPostId === undefined
+        ? {}
+        : await resolveShare(
+            body.sharedPostId,
+            req.user!,
+            body.boardId,
+            body.content ? ShareType.QUOTE : ShareType.REPOST
+          );
+    const { content, flags } = body.content
+      ? await applyContentPolicy(body.content, { kind: "post", userId })
+      : { content: "", flags: [] };
+    const post = await prisma.$transaction(async (tx) => {
+      // New notes land on top of the board unless placed explicitly
+      const { _max } = await tx.post.aggregate({
+        where: { boardId: body.boardId },
+        _max: { zIndex: true },
+      });
+      const created = await tx.post.create({
+        data: {
+          content,
+          userId,
+          boardId: body.boardId,
+          ...share,
+          ...body.layout,
+          zIndex: body.layout?.zIndex ?? (_max.zIndex ?? 0) + 1,
+        },
+      });
+      const mentioned = await syncPostEntities(tx, created.id, content);
+      for (const recipientId of mentioned) {
+        await notify(tx, {
+          type: NotificationType.MENTION,
+          recipientId,
+          actorId: userId,
+          postId: created.id,
+        });
+      }
+      return tx.post.findUniqueOrThrow({
+        where: { id: created.id },
+        include: postInclude,
+      });
     });
-    if (!user) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
+    await flagViolations({ postId: post.id }, flags);
+    const [data] = await presentPosts([post], req.user);
+    if (isPublicBoard(post.board)) {
+      // Broadcast without the author's own reaction state
+      const [broadcast] = await presentPosts([post]);
+      publishEvent(POSTS_CHANNEL, "post.created", broadcast);
     }
-
-    const post = await prisma.post.create({
-      data: { content, userId },
-    });
-    res.status(201).json({ success: true, data: post });
+    res.status(201).json({ success: true, data });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts:
- *   get:
- *     summary: Retrieve all posts
- *     tags: [Posts]
- *     parameters:
- *       - in: query
- *         name: includeDeleted
- *         schema:
- *           type: string
- *           enum: [true, false]
- *         description: Include both active and soft-deleted posts
- *       - in: query
- *         name: onlyDeleted
- *         schema:
- *           type: string
- *           enum: [true, false]
- *         description: Return only soft-deleted posts
- *     responses:
- *       200:
- *         description: List of posts, ordered by creation date (descending)
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Post'
- */
 export const getPosts = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { includeDeleted, onlyDeleted } = req.query as {
-    includeDeleted?: string;
-    onlyDeleted?: string;
-  };
+  const { includeDeleted, onlyDeleted, ...page } =
+    getPostsRoute.input(req).query;
+  const moderator = isModerator(req.user);
+  if ((includeDeleted || onlyDeleted) && !moderator) {
+    throw new ForbiddenError("Only moderators can view deleted posts");
+  }
   try {
-    let where: any = {};
+    let where: Prisma.PostWhereInput = visiblePostWhere(req.user);
 
-    if (onlyDeleted === "true") {
-      where = { deletedAt: { not: null } };
-    } else if (includeDeleted !== "true") {
-      where = { deletedAt: null };
+    if (onlyDeleted) {
+      where = { ...where, deletedAt: { not: null } };
+    } else if (!includeDeleted) {
+      where = { ...where, deletedAt: null };
+    }
+    if (!moderator) {
+      where = { ...where, hiddenAt: null };
     }
 
-    const posts = await prisma.post.findMany({
-      where,
-      orderBy: { createdAt: "desc" },
+    const { data, pagination } = await paginate(page, where, "desc", (args) =>
+      prisma.post.findMany({ ...args, include: postInclude })
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentPosts(data, req.user),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const streamPosts = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  await streamChannel(req, res, POSTS_CHANNEL);
+};
+
+export const getFeed = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const page = getFeedRoute.input(req).query;
+  const userId = req.user!.id;
+  try {
+    let where: Prisma.PostWhereInput = {
+      deletedAt: null,
+      user: { followers: { some: { followerId: userId } } },
+      ...visiblePostWhere(req.user),
+    };
+    if (!isModerator(req.user)) {
+      where = { ...where, hiddenAt: null };
+    }
+
+    const { data, pagination } = await paginate(page, where, "desc", (args) =>
+      prisma.post.findMany({ ...args, include: postInclude })
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentPosts(data, req.user),
+      pagination,
     });
-    res.status(200).json({ success: true, data: posts });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{id}:
- *   get:
- *     summary: Retrieve a single post
- *     tags: [Posts]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *     responses:
- *       200:
- *         description: Post details
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Post'
- *       404:
- *         description: Post not found or deleted
- */
 export const getPost = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const { id } = req.params;
+  const { id } = getPostRoute.input(req).params;
   try {
     const post = await prisma.post.findUnique({
-      where: { id: parseInt(id) },
+      where: { id, ...visiblePostWhere(req.user) },
+      include: postInclude,
     });
-    if (!post || post.deletedAt) {
-      res.status(404).json({ success: false, message: "Post not found" });
-      return;
+    if (!post || post.deletedAt || (post.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Post not found");
     }
-    res.status(200).json({ success: true, data: post });
+    const [data] = await presentPosts([post], req.user);
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPostQuotes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query: page } = getPostQuotesRoute.input(req);
+  const moderator = isModerator(req.user);
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: params.id, ...visiblePostWhere(req.user) },
+    });
+    if (!post || post.deletedAt || (post.hiddenAt && !moderator)) {
+      throw new NotFoundError("Post not found");
+    }
+
+    let where: Prisma.PostWhereInput = {
+      sharedPostId: post.id,
+      shareType: ShareType.QUOTE,
+      deletedAt: null,
+      ...visiblePostWhere(req.user),
+    };
+    if (!moderator) {
+      where = { ...where, hiddenAt: null };
+    }
+    const { data, pagination } = await paginate(page, where, "desc", (args) =>
+      prisma.post.findMany({ ...args, include: postInclude })
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentPosts(data, req.user),
+      pagination,
+    });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{id}:
- *   put:
- *     summary: Update a post
- *     tags: [Posts]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - userId
- *             properties:
- *               content:
- *                 type: string
- *               userId:
- *                 type: integer
- *     responses:
- *       200:
- *         description: Post updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Post'
- *       403:
- *         description: Forbidden - not the post owner
- *       404:
- *         description: Post not found or deleted
- */
 export const updatePost = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const { id } = req.params;
-  const { content, userId } = req.body;
+  const { params, body } = updatePostRoute.input(req);
+  const { content } = body;
+  const userId = req.user!.id;
   try {
     const post = await prisma.post.findUnique({
-      where: { id: parseInt(id) },
+      where: { id: params.id },
     });
     if (!post || post.deletedAt) {
-      res.status(404).json({ success: false, message: "Post not found" });
-      return;
+      throw new NotFoundError("Post not found");
     }
     if (post.userId !== userId) {
-      res
-        .status(403)
-        .json({
-          success: false,
-          message: "You can only update your own posts",
-        });
-      return;
+      throw new ForbiddenError("You can only update your own posts");
+    }
+    if (content && post.shareType === ShareType.REPOST) {
+      throw new BadRequestError(
+        "A repost has no content to edit; quote the post instead"
+      );
     }
+    const filtered = content
+      ? await applyContentPolicy(content, {
+          kind: "post",
+          userId,
+          id: post.id,
+        })
+      : null;
 
-    const updatedPost = await prisma.post.update({
-      where: { id: parseInt(id) },
-      data: { content: content || post.content },
+    const updatedPost = await prisma.$transaction(async (tx) => {
+      // Only real content changes count as edits and enter the history
+      const edited = !!filtered && filtered.content !== post.content;
+      if (edited) {
+        await recordPostRevision(tx, post);
+      }
+      const updated = await tx.post.update({
+        where: { id: post.id },
+        data: edited
+          ? {
+              content: filtered.content,
+              editCount: { increment: 1 },
+              editedAt: new Date(),
+            }
+          : {},
+      });
+      // Edits re-extract hashtags and mentions from the new content
+      const mentioned = await syncPostEntities(
+        tx,
+        updated.id,
+        updated.content
+      );
+      for (const recipientId of mentioned) {
+        await notify(tx, {
+          type: NotificationType.MENTION,
+          recipientId,
+          actorId: userId,
+          postId: updated.id,
+        });
+      }
+      return tx.post.findUniqueOrThrow({
+        where: { id: updated.id },
+        include: postInclude,
+      });
     });
-    res.status(200).json({ success: true, data: updatedPost });
+    await flagViolations({ postId: updatedPost.id }, filtered?.flags ?? []);
+    const [data] = await presentPosts([updatedPost], req.user);
+    if (!updatedPost.hiddenAt && isPublicBoard(updatedPost.board)) {
+      // Broadcast without the editor's own reaction state
+      const [broadcast] = await presentPosts([updatedPost]);
+      publishEvent(POSTS_CHANNEL, "post.updated", broadcast);
+    }
+    res.status(200).json({ success: true, data });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /posts/{id}:
- *   delete:
- *     summary: Soft-delete a post
- *     tags: [Posts]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The post ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - userId
- *             properties:
- *               userId:
- *                 type: integer
- *     responses:
- *       200:
- *         description: Post soft-deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Post'
- *       403:
- *         description: Forbidden - not the post owner
- *       404:
- *         description: Post not found or already deleted
- */
 export const deletePost = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const { id } = req.params;
-  const { userId } = req.body;
+  const { params, body } = deletePostRoute.input(req);
+  const { reason } = body;
+  const userId = req.user!.id;
   try {
     const post = await prisma.post.findUnique({
-      where: { id: parseInt(id) },
+      where: { id: params.id },
     });
     if (!post || post.deletedAt) {
-      res.status(404).json({ success: false, message: "Post not found" });
-      return;
+      throw new NotFoundError("Post not found");
     }
-    if (post.userId !== userId) {
-      res
-        .status(403)
-        .json({
-          success: false,
-          message: "You can only delete your own posts",
-        });
-      return;
+    const isOwner = post.userId === userId;
+    if (!isOwner && !isModerator(req.user)) {
+      throw new ForbiddenError("You can only delete your own posts");
+    }
+    if (!isOwner && !reason) {
+      throw new BadRequestError(
+        "A reason is required when deleting another user's post"
+      );
     }
 
-    const deletedPost = await prisma.post.update({
-      where: { id: parseInt(id) },
-      data: { deletedAt: new Date() },
+    const batch = newDeletionBatch();
+    const [deletedPost, affected] = await prisma.$transaction(async (tx) => {
+      const affected = await softDeletePost(tx, post.id, batch);
+      if (!isOwner) {
+        await tx.moderationAction.create({
+          data: {
+            action: ModerationActionType.DELETE,
+            reason: reason!,
+            moderatorId: userId,
+            postId: post.id,
+            deletionBatchId: batch.deletionBatchId,
+          },
+        });
+      }
+      const deleted = await tx.post.findUniqueOrThrow({
+        where: { id: post.id },
+      });
+      return [deleted, affected] as const;
     });
+    publishAffectedContent(affected, "deleted");
     res.status(200).json({ success: true, data: deletedPost });
   } catch (error) {
     next(error);
   }
 };
+
+export const restorePost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = restorePostRoute.input(req);
+  const { reason } = body;
+  const userId = req.user!.id;
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: params.id },
+      include: { user: { select: { deletedAt: true } } },
+    });
+    if (!post || !post.deletedAt) {
+      throw new NotFoundError("Deleted post not found");
+    }
+    const isOwner = post.userId === userId;
+    const moderator = isModerator(req.user);
+    if (!isOwner && !moderator) {
+      throw new ForbiddenError("You can only restore your own posts");
+    }
+    if (!isOwner && !reason) {
+      throw new BadRequestError(
+        "A reason is required when restoring another user's post"
+      );
+    }
+    if (post.user.deletedAt) {
+      throw new ConflictError(
+        "The post's author is deleted; restore the user first"
+      );
+    }
+    if (!moderator) {
+      const moderated = await prisma.moderationAction.findFirst({
+        where: {
+          action: ModerationActionType.DELETE,
+          deletionBatchId: post.deletionBatchId,
+        },
+      });
+      if (moderated) {
+        throw new ForbiddenError(
+          "Posts deleted by a moderator can only be restored by a moderator"
+        );
+      }
+    }
+
+    const [restoredPost, affected] = await prisma.$transaction(async (tx) => {
+      const affected = await restoreDeletionBatch(tx, post.deletionBatchId!);
+      if (!isOwner) {
+        await tx.moderationAction.create({
+          data: {
+            action: ModerationActionType.RESTORE,
+            reason: reason!,
+            moderatorId: userId,
+            postId: post.id,
+          },
+        });
+      }
+      const restored = await tx.post.findUniqueOrThrow({
+        where: { id: post.id },
+      });
+      return [restored, affected] as const;
+    });
+    publishAffectedContent(affected, "restored");
+    res.status(200).json({ success: true, data: restoredPost });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const hidePost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await setPostHidden(req, res, next, true);
+};
+
+export const unhidePost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  await setPostHidden(req, res, next, false);
+};
+
+const setPostHidden = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  hidden: boolean
+): Promise<void> => {
+  const { params, body } = (
+    hidden ? hidePostRoute : unhidePostRoute
+  ).input(req);
+  const { reason } = body;
+  try {
+    const post = await prisma.post.findUnique({
+      where: { id: params.id },
+    });
+    if (!post || post.deletedAt) {
+      throw new NotFoundError("Post not found");
+    }
+    if (!!post.hiddenAt === hidden) {
+      throw new ConflictError(
+        hidden ? "Post is already hidden" : "Post is not hidden"
+      );
+    }
+
+    const [updatedPost] = await prisma.$transaction([
+      prisma.post.update({
+        where: { id: post.id },
+        data: { hiddenAt: hidden ? new Date() : null },
+      }),
+      prisma.moderationAction.create({
+        data: {
+          action: hidden
+            ? ModerationActionType.HIDE
+            : ModerationActionType.UNHIDE,
+          reason,
+          moderatorId: req.user!.id,
+          postId: post.id,
+        },
+      }),
+    ]);
+    if (hidden) {
+      publishEvent(POSTS_CHANNEL, "post.hidden", { id: updatedPost.id });
+    } else {
+      const loaded = await prisma.post.findUniqueOrThrow({
+        where: { id: updatedPost.id },
+        include: postInclude,
+      });
+      if (isPublicBoard(loaded.board)) {
+        const [broadcast] = await presentPosts([loaded]);
+        publishEvent(POSTS_CHANNEL, "post.unhidden", broadcast);
+      }
+    }
+    res.status(200).json({ success: true, data: updatedPost });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,178 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, NotificationType } from "@prisma/client";
+import {
+  getPostReactionSummaries,
+  getCommentReactionSummaries,
+} from "../utils/reactions";
+import { notify } from "../utils/notifications";
+import { visiblePostWhere } from "../utils/boards";
+import { NotFoundError } from "../utils/errors";
+import {
+  setPostReactionRoute,
+  removePostReactionRoute,
+  setCommentReactionRoute,
+  removeCommentReactionRoute,
+} from "../schemas/reactionSchemas";
+
+const prisma = new PrismaClient();
+
+// Reactions are only allowed on content the caller can currently see
+const findVisiblePost = (req: Request, id: number) =>
+  prisma.post.findUnique({
+    where: {
+      id,
+      deletedAt: null,
+      hiddenAt: null,
+      ...visiblePostWhere(req.user),
+    },
+  });
+
+const findVisibleComment = (req: Request, postId: number, id: number) =>
+  prisma.comment.findUnique({
+    where: {
+      id,
+      postId,
+      deletedAt: null,
+      hiddenAt: null,
+      post: { hiddenAt: null, ...visiblePostWhere(req.user) },
+    },
+  });
+
+export const setPostReaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = setPostReactionRoute.input(req);
+  const { id } = params;
+  const { type } = body;
+  const userId = req.user!.id;
+  try {
+    const post = await findVisiblePost(req, id);
+    if (!post) {
+      throw new NotFoundError("Post not found");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Insert-or-skip is atomic, so a concurrent request for the same
+      // reaction can neither fail on the unique key nor notify twice
+      const { count } = await tx.postReaction.createMany({
+        data: { type, userId, postId: post.id },
+        skipDuplicates: true,
+      });
+      if (count === 0) {
+        // Changing an existing reaction is not news to the author
+        await tx.postReaction.update({
+          where: { userId_postId: { userId, postId: post.id } },
+          data: { type },
+        });
+      } else {
+        await notify(tx, {
+          type: NotificationType.POST_REACTION,
+          recipientId: post.userId,
+          actorId: userId,
+          postId: post.id,
+        });
+      }
+    });
+    const summaries = await getPostReactionSummaries([post.id], userId);
+    res.status(200).json({ success: true, data: summaries.get(post.id) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removePostReaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = removePostReactionRoute.input(req).params;
+  const userId = req.user!.id;
+  try {
+    const post = await findVisiblePost(req, id);
+    if (!post) {
+      throw new NotFoundError("Post not found");
+    }
+
+    const { count } = await prisma.postReaction.deleteMany({
+      where: { userId, postId: post.id },
+    });
+    if (count === 0) {
+      throw new NotFoundError("Reaction not found");
+    }
+    const summaries = await getPostReactionSummaries([post.id], userId);
+    res.status(200).json({ success: true, data: summaries.get(post.id) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setCommentReaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = setCommentReactionRoute.input(req);
+  const { postId, id } = params;
+  const { type } = body;
+  const userId = req.user!.id;
+  try {
+    const comment = await findVisibleComment(req, postId, id);
+    if (!comment) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.commentReaction.createMany({
+        data: { type, userId, commentId: comment.id },
+        skipDuplicates: true,
+      });
+      if (count === 0) {
+        // Changing an existing reaction is not news to the author
+        await tx.commentReaction.update({
+          where: { userId_commentId: { userId, commentId: comment.id } },
+          data: { type },
+        });
+      } else {
+        await notify(tx, {
+          type: NotificationType.COMMENT_REACTION,
+          recipientId: comment.userId,
+          actorId: userId,
+          postId: comment.postId,
+          commentId: comment.id,
+        });
+      }
+    });
+    const summaries = await getCommentReactionSummaries([comment.id], userId);
+    res.status(200).json({ success: true, data: summaries.get(comment.id) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeCommentReaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { postId, id } = removeCommentReactionRoute.input(req).params;
+  const userId = req.user!.id;
+  try {
+    const comment = await findVisibleComment(req, postId, id);
+    if (!comment) {
+      throw new NotFoundError("Comment not found");
+    }
+
+    const { count } = await prisma.commentReaction.deleteMany({
+      where: { userId, commentId: comment.id },
+    });
+    if (count === 0) {
+      throw new NotFoundError("Reaction not found");
+    }
+    const summaries = await getCommentReactionSummaries([comment.id], userId);
+    res.status(200).json({ success: true, data: summaries.get(comment.id) });
+  } catch (error) {
+    next(error);
+  }
+};
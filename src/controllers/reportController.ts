@@ -0,0 +1,448 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  PrismaClient,
+  Prisma,
+  ModerationActionType,
+  ReportCategory,
+  ReportResolution,
+  ReportStatus,
+  Role,
+} from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import {
+  fileReport,
+  publishHidden,
+  publishUnhidden,
+  ContentRef,
+} from "../utils/reports";
+import { visiblePostWhere } from "../utils/boards";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+} from "../utils/errors";
+import {
+  reportPostRoute,
+  reportCommentRoute,
+  reportUserRoute,
+  getReportsRoute,
+  getReportRoute,
+  resolveReportRoute,
+} from "../schemas/reportSchemas";
+
+const prisma = new PrismaClient();
+
+// Reports listed with a case; the categories summary still counts them all
+const MAX_CASE_REPORTS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const authorSelect = {
+  select: { id: true, username: true, avatarUrl: true },
+} as const;
+
+const reportedPostSelect = {
+  id: true,
+  content: true,
+  user: authorSelect,
+  createdAt: true,
+  editedAt: true,
+  hiddenAt: true,
+  deletedAt: true,
+} as const;
+
+const reportedCommentSelect = {
+  id: true,
+  content: true,
+  postId: true,
+  parentId: true,
+  user: authorSelect,
+  createdAt: true,
+  editedAt: true,
+  hiddenAt: true,
+  deletedAt: true,
+} as const;
+
+// Loads a case's target with the surrounding content a moderator needs
+const caseInclude = {
+  post: { select: reportedPostSelect },
+  comment: {
+    select: {
+      ...reportedCommentSelect,
+      post: { select: reportedPostSelect },
+      parent: { select: reportedCommentSelect },
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      username: true,
+      avatarUrl: true,
+      role: true,
+      createdAt: true,
+      deletedAt: true,
+      suspendedUntil: true,
+    },
+  },
+} as const;
+
+type LoadedCase = Prisma.ReportCaseGetPayload<{ include: typeof caseInclude }>;
+
+const TARGET_FILTERS = {
+  post: { postId: { not: null } },
+  comment: { commentId: { not: null } },
+  user: { userId: { not: null } },
+};
+
+const toTarget = ({ post, comment, user }: LoadedCase) => {
+  if (comment) {
+    const { post: commentPost, parent, ...reported } = comment;
+    return {
+      type: "comment" as const,
+      comment: reported,
+      post: commentPost,
+      parent,
+    };
+  }
+  if (post) {
+    return { type: "post" as const, post };
+  }
+  return { type: "user" as const, user: user! };
+};
+
+// Shapes cases for the queue: the target in context plus the current round's reports
+const presentCases = async (cases: LoadedCase[]) => {
+  const rounds = cases.map(({ id, round }) => ({ caseId: id, round }));
+  const [reports, counts] = await Promise.all([
+    Promise.all(
+      rounds.map((where) =>
+        prisma.report.findMany({
+          where,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          take: MAX_CASE_REPORTS,
+          include: { reporter: authorSelect },
+        })
+      )
+    ),
+    prisma.report.groupBy({
+      by: ["caseId", "category"],
+      where: { OR: rounds },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return cases.map((reportCase, i) => {
+    const { post, comment, user, ...fields } = reportCase;
+    const categories: Partial<Record<ReportCategory, number>> = {};
+    for (const row of counts) {
+      if (row.caseId === reportCase.id) {
+        categories[row.category] = row._count._all;
+      }
+    }
+    return {
+      ...fields,
+      categories,
+      target: toTarget(reportCase),
+      reports: reports[i].map(({ reporterId, ...report }) => report),
+    };
+  });
+};
+
+export const reportPost = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = reportPostRoute.input(req);
+  const reporterId = req.user!.id;
+  try {
+    const post = await prisma.post.findUnique({
+      where: {
+        id: params.id,
+        deletedAt: null,
+        ...visiblePostWhere(req.user),
+      },
+    });
+    if (!post || (post.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Post not found");
+    }
+    if (post.userId === reporterId) {
+      throw new BadRequestError("You cannot report your own post");
+    }
+
+    const report = await fileReport(
+      { postId: post.id },
+      reporterId,
+      body,
+      "post"
+    );
+    res.status(201).json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reportComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = reportCommentRoute.input(req);
+  const reporterId = req.user!.id;
+  try {
+    const comment = await prisma.comment.findUnique({
+      where: {
+        id: params.id,
+        postId: params.postId,
+        deletedAt: null,
+        post: visiblePostWhere(req.user),
+      },
+    });
+    if (!comment || (comment.hiddenAt && !isModerator(req.user))) {
+      throw new NotFoundError("Comment not found");
+    }
+    if (comment.userId === reporterId) {
+      throw new BadRequestError("You cannot report your own comment");
+    }
+
+    const report = await fileReport(
+      { commentId: comment.id },
+      reporterId,
+      body,
+      "comment"
+    );
+    res.status(201).json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reportUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = reportUserRoute.input(req);
+  const reporterId = req.user!.id;
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id, deletedAt: null },
+    });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    if (user.id === reporterId) {
+      throw new BadRequestError("You cannot report yourself");
+    }
+
+    const report = await fileReport(
+      { userId: user.id },
+      reporterId,
+      body,
+      "user"
+    );
+    res.status(201).json({ success: true, data: report });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { status, type, ...page } = getReportsRoute.input(req).query;
+  try {
+    const where = {
+      status: status === "open" ? ReportStatus.OPEN : ReportStatus.RESOLVED,
+      ...(type ? TARGET_FILTERS[type] : {}),
+    };
+
+    const { data, pagination } = await paginate(
+      page,
+      where,
+      "desc",
+      (args) => prisma.reportCase.findMany({ ...args, include: caseInclude }),
+      "lastReportedAt"
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentCases(data),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = getReportRoute.input(req).params;
+  try {
+    const reportCase = await prisma.reportCase.findUnique({
+      where: { id },
+      include: caseInclude,
+    });
+    if (!reportCase) {
+      throw new NotFoundError("Report case not found");
+    }
+
+    const [data] = await presentCases([reportCase]);
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resolveReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = resolveReportRoute.input(req);
+  const { action, reason, days } = body;
+  const moderatorId = req.user!.id;
+  try {
+    const reportCase = await prisma.reportCase.findUnique({
+      where: { id: params.id },
+      include: { post: true, comment: true },
+    });
+    if (!reportCase) {
+      throw new NotFoundError("Report case not found");
+    }
+    if (reportCase.status === ReportStatus.RESOLVED) {
+      throw new ConflictError("Report case is already resolved");
+    }
+
+    const content = reportCase.post ?? reportCase.comment;
+    const noun = reportCase.post ? "post" : "comment";
+    const visibility: ContentRef | null = content && {
+      postId: reportCase.post?.id ?? reportCase.comment!.postId,
+      commentId: reportCase.comment?.id ?? null,
+    };
+
+    let resolution: ReportResolution;
+    let hiddenChange: boolean | null = null;
+    let suspendedUserId: number | null = null;
+    if (action === "dismiss") {
+      resolution = ReportResolution.DISMISSED;
+      // Only undo a hide the threshold made, not one a moderator made since
+      if (
+        content?.hiddenAt &&
+        !content.deletedAt &&
+        content.hiddenAt.getTime() === reportCase.autoHiddenAt?.getTime()
+      ) {
+        hiddenChange = false;
+      }
+    } else if (action === "hide") {
+      resolution = ReportResolution.CONTENT_HIDDEN;
+      if (!content) {
+        throw new BadRequestError(
+          "Only reported posts and comments can be hidden"
+        );
+      }
+      if (content.deletedAt) {
+        throw new ConflictError(`The reported ${noun} has been deleted`);
+      }
+      if (!content.hiddenAt) {
+        hiddenChange = true;
+      }
+    } else {
+      resolution = ReportResolution.USER_SUSPENDED;
+      const user = await prisma.user.findUnique({
+        where: { id: reportCase.userId ?? content!.userId },
+      });
+      if (!user || user.deletedAt) {
+        throw new ConflictError("The reported user has been deleted");
+      }
+      if (user.role !== Role.USER) {
+        throw new ForbiddenError("Moderators and admins cannot be suspended");
+      }
+      suspendedUserId = user.id;
+    }
+
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      // Guard against two moderators resolving the same case at once
+      const { count } = await tx.reportCase.updateMany({
+        where: { id: reportCase.id, status: ReportStatus.OPEN },
+        data: {
+          status: ReportStatus.RESOLVED,
+          resolution,
+          resolutionNote: reason,
+          resolvedById: moderatorId,
+          resolvedAt: now,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictError("Report case is already resolved");
+      }
+
+      if (hiddenChange !== null) {
+        const data = { hiddenAt: hiddenChange ? now : null };
+        if (reportCase.postId) {
+          await tx.post.update({ where: { id: reportCase.postId }, data });
+        } else {
+          await tx.comment.update({
+            where: { id: reportCase.commentId! },
+            data,
+          });
+        }
+      }
+      if (action === "hide" || hiddenChange === false) {
+        await tx.moderationAction.create({
+          data: {
+            action:
+              action === "hide"
+                ? ModerationActionType.HIDE
+                : ModerationActionType.UNHIDE,
+            reason,
+            moderatorId,
+            postId: reportCase.postId,
+            commentId: reportCase.commentId,
+          },
+        });
+      }
+      if (suspendedUserId) {
+        await tx.user.update({
+          where: { id: suspendedUserId },
+          data: { suspendedUntil: new Date(now.getTime() + days * DAY_MS) },
+        });
+        // Existing sessions end now rather than when their tokens expire
+        await tx.refreshToken.updateMany({
+          where: { userId: suspendedUserId, revokedAt: null },
+          data: { revokedAt: now },
+        });
+        await tx.moderationAction.create({
+          data: {
+            action: ModerationActionType.SUSPEND,
+            reason,
+            moderatorId,
+            userId: suspendedUserId,
+          },
+        });
+      }
+    });
+
+    if (visibility && hiddenChange === true) {
+      publishHidden(visibility);
+    } else if (visibility && hiddenChange === false) {
+      await publishUnhidden(visibility);
+    }
+
+    const resolved = await prisma.reportCase.findUniqueOrThrow({
+      where: { id: reportCase.id },
+      include: caseInclude,
+    });
+    const [data] = await presentCases([resolved]);
+    res.status(200).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient } from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { listVersions, diffVersions, Version } from "../utils/revisions";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors";
+import {
+  getPostRevisionsRoute,
+  getPostRevisionDiffRoute,
+  getCommentRevisionsRoute,
+  getCommentRevisionDiffRoute,
+} from "../schemas/revisionSchemas";
+
+const prisma = new PrismaClient();
+
+const revisionOrder = { orderBy: { version: "asc" as const } };
+
+/**
+ * Loads a post's full version history if the caller may see it: the author
+ * or a moderator. Moderators can also inspect deleted and hidden posts.
+ */
+const loadPostVersions = async (
+  req: Request,
+  id: number
+): Promise<Version[]> => {
+  const post = await prisma.post.findUnique({
+    where: { id },
+    include: { revisions: revisionOrder },
+  });
+  const moderator = isModerator(req.user);
+  if (!post || ((post.deletedAt || post.hiddenAt) && !moderator)) {
+    throw new NotFoundError("Post not found");
+  }
+  if (post.userId !== req.user!.id && !moderator) {
+    throw new ForbiddenError(
+      "Only the author or a moderator can view edit history"
+    );
+  }
+  return listVersions(post.revisions, post);
+};
+
+const loadCommentVersions = async (
+  req: Request,
+  params: { postId: number; id: number }
+): Promise<Version[]> => {
+  const comment = await prisma.comment.findUnique({
+    where: { id: params.id, postId: params.postId },
+    include: { revisions: revisionOrder },
+  });
+  const moderator = isModerator(req.user);
+  if (!comment || ((comment.deletedAt || comment.hiddenAt) && !moderator)) {
+    throw new NotFoundError("Comment not found");
+  }
+  if (comment.userId !== req.user!.id && !moderator) {
+    throw new ForbiddenError(
+      "Only the author or a moderator can view edit history"
+    );
+  }
+  return listVersions(comment.revisions, comment);
+};
+
+const sendDiff = (
+  res: Response,
+  versions: Version[],
+  query: { from?: number; to?: number }
+): void => {
+  const diff = diffVersions(versions, query);
+  if ("error" in diff) {
+    throw new BadRequestError(diff.error);
+  }
+  res.status(200).json({ success: true, data: diff });
+};
+
+export const getPostRevisions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = getPostRevisionsRoute.input(req).params;
+    const versions = await loadPostVersions(req, id);
+    res.status(200).json({ success: true, data: versions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPostRevisionDiff = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { params, query } = getPostRevisionDiffRoute.input(req);
+    sendDiff(res, await loadPostVersions(req, params.id), query);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCommentRevisions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { params } = getCommentRevisionsRoute.input(req);
+    const versions = await loadCommentVersions(req, params);
+    res.status(200).json({ success: true, data: versions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCommentRevisionDiff = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { params, query } = getCommentRevisionDiffRoute.input(req);
+    sendDiff(res, await loadCommentVersions(req, params), query);
+  } catch (error) {
+    next(error);
+  }
+};
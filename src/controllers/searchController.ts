@@ -0,0 +1,161 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { AuthUser, isModerator } from "../middlewares/auth";
+import { escapeHtml } from "../utils/html";
+import { visibleBoardSql } from "../utils/boards";
+import { searchRoute } from "../schemas/searchSchemas";
+
+const prisma = new PrismaClient();
+
+// ts_headline wraps matches in these control characters; the text is then
+// HTML-escaped and the markers swapped for <mark> tags, so user content can
+// never inject markup into a highlight.
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxFragments=3, MaxWords=20, MinWords=5, FragmentDelimiter=" … "`;
+
+const toHighlight = (headline: string): string =>
+  escapeHtml(headline)
+    .split(MATCH_START)
+    .join("<mark>")
+    .split(MATCH_END)
+    .join("</mark>");
+
+interface SearchFilters {
+  q: string;
+  authorId?: number;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  includeHidden: boolean;
+  viewer?: AuthUser;
+}
+
+const dateRange = (column: Prisma.Sql, { from, to }: SearchFilters) =>
+  Prisma.sql`${from ? Prisma.sql`AND ${column} >= ${from}` : Prisma.empty}
+    ${to ? Prisma.sql`AND ${column} <= ${to}` : Prisma.empty}`;
+
+const searchPosts = async (filters: SearchFilters) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: number;
+      content: string;
+      userId: number;
+      createdAt: Date;
+      rank: number;
+      headline: string;
+    }[]
+  >`
+    SELECT p."id", p."content", p."userId", p."createdAt",
+      ts_rank(p."searchVector", q) AS "rank",
+      ts_headline('english', p."content", q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "Post" p, websearch_to_tsquery('english', ${filters.q}) q
+    WHERE p."searchVector" @@ q
+      AND p."deletedAt" IS NULL
+      ${filters.includeHidden ? Prisma.empty : Prisma.sql`AND p."hiddenAt" IS NULL`}
+      ${visibleBoardSql(Prisma.sql`p."boardId"`, filters.viewer)}
+      ${filters.authorId ? Prisma.sql`AND p."userId" = ${filters.authorId}` : Prisma.empty}
+      ${dateRange(Prisma.sql`p."createdAt"`, filters)}
+    ORDER BY "rank" DESC, p."id" DESC
+    LIMIT ${filters.limit}
+  `;
+  return rows.map(({ headline, ...row }) => ({
+    ...row,
+    highlight: toHighlight(headline),
+  }));
+};
+
+const searchComments = async (filters: SearchFilters) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: number;
+      content: string;
+      userId: number;
+      postId: number;
+      createdAt: Date;
+      rank: number;
+      headline: string;
+    }[]
+  >`
+    SELECT c."id", c."content", c."userId", c."postId", c."createdAt",
+      ts_rank(c."searchVector", q) AS "rank",
+      ts_headline('english', c."content", q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "Comment" c
+      JOIN "Post" p ON p."id" = c."postId",
+      websearch_to_tsquery('english', ${filters.q}) q
+    WHERE c."searchVector" @@ q
+      AND c."deletedAt" IS NULL
+      AND p."deletedAt" IS NULL
+      ${filters.includeHidden ? Prisma.empty : Prisma.sql`AND c."hiddenAt" IS NULL AND p."hiddenAt" IS NULL`}
+      ${visibleBoardSql(Prisma.sql`p."boardId"`, filters.viewer)}
+      ${filters.authorId ? Prisma.sql`AND c."userId" = ${filters.authorId}` : Prisma.empty}
+      ${dateRange(Prisma.sql`c."createdAt"`, filters)}
+    ORDER BY "rank" DESC, c."id" DESC
+    LIMIT ${filters.limit}
+  `;
+  return rows.map(({ headline, ...row }) => ({
+    ...row,
+    highlight: toHighlight(headline),
+  }));
+};
+
+// Users have no author, so the author filter does not apply to them
+const searchUsers = async (filters: SearchFilters) => {
+  const rows = await prisma.$queryRaw<
+    {
+      id: number;
+      username: string;
+      avatarUrl: string;
+      createdAt: Date;
+      rank: number;
+      headline: string;
+    }[]
+  >`
+    SELECT u."id", u."username", u."avatarUrl", u."createdAt",
+      ts_rank(u."searchVector", q) AS "rank",
+      ts_headline('simple', u."username", q, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "User" u, websearch_to_tsquery('simple', ${filters.q}) q
+    WHERE u."searchVector" @@ q
+      AND u."deletedAt" IS NULL
+      ${dateRange(Prisma.sql`u."createdAt"`, filters)}
+    ORDER BY "rank" DESC, u."id" DESC
+    LIMIT ${filters.limit}
+  `;
+  return rows.map(({ headline, ...row }) => ({
+    ...row,
+    highlight: toHighlight(headline),
+  }));
+};
+
+export const search = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { q, type: types, authorId, from, to, limit } =
+    searchRoute.input(req).query;
+  const filters: SearchFilters = {
+    q,
+    authorId,
+    from,
+    to,
+    limit,
+    includeHidden: isModerator(req.user),
+    viewer: req.user,
+  };
+  try {
+    const [posts, comments, users] = await Promise.all([
+      types.includes("posts") ? searchPosts(filters) : undefined,
+      types.includes("comments") ? searchComments(filters) : undefined,
+      // An author filter narrows the search to content, not accounts
+      types.includes("users") && filters.authorId === undefined
+        ? searchUsers(filters)
+        : undefined,
+    ]);
+    res
+      .status(200)
+      .json({ success: true, data: { posts, comments, users } });
+  } catch (error) {
+    next(error);
+  }
+};
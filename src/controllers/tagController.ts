@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "@prisma/client";
+import { isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import { postInclude, presentPosts } from "../utils/posts";
+import { visiblePostWhere } from "../utils/boards";
+import {
+  getTagPostsRoute,
+  getTrendingTagsRoute,
+} from "../schemas/tagSchemas";
+
+const prisma = new PrismaClient();
+
+export const getTagPosts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query: page } = getTagPostsRoute.input(req);
+  try {
+    let where: Prisma.PostWhereInput = {
+      deletedAt: null,
+      tags: { some: { tag: { name: params.tag } } },
+      ...visiblePostWhere(req.user),
+    };
+    if (!isModerator(req.user)) {
+      where = { ...where, hiddenAt: null };
+    }
+
+    const { data, pagination } = await paginate(page, where, "desc", (args) =>
+      prisma.post.findMany({ ...args, include: postInclude })
+    );
+    res.status(200).json({
+      success: true,
+      data: await presentPosts(data, req.user),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTrendingTags = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { hours, limit: take } = getTrendingTagsRoute.input(req).query;
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+  try {
+    // A post or comment repeating a tag still counts once. Trends are the
+    // same for everyone, so only public boards contribute.
+    const trending = await prisma.$queryRaw<{ tag: string; uses: number }[]>`
+      SELECT t."name" AS "tag", COUNT(*)::int AS "uses"
+      FROM (
+        SELECT DISTINCT pt."tagId", pt."postId" AS "itemId", 'post' AS "kind"
+        FROM "PostTag" pt
+          JOIN "Post" p ON p."id" = pt."postId"
+          JOIN "Board" b ON b."id" = p."boardId"
+        WHERE p."createdAt" >= ${since}
+          AND b."visibility" = 'PUBLIC'
+          AND p."deletedAt" IS NULL
+          AND p."hiddenAt" IS NULL
+        UNION ALL
+        SELECT DISTINCT ct."tagId", ct."commentId", 'comment'
+        FROM "CommentTag" ct
+          JOIN "Comment" c ON c."id" = ct."commentId"
+          JOIN "Post" p ON p."id" = c."postId"
+          JOIN "Board" b ON b."id" = p."boardId"
+        WHERE c."createdAt" >= ${since}
+          AND b."visibility" = 'PUBLIC'
+          AND c."deletedAt" IS NULL
+          AND c."hiddenAt" IS NULL
+      ) uses
+        JOIN "Tag" t ON t."id" = uses."tagId"
+      GROUP BY t."name"
+      ORDER BY "uses" DESC, t."name" ASC
+      LIMIT ${take}
+    `;
+    res.status(200).json({ success: true, data: trending });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,70 +1,95 @@
 import { Request, Response, NextFunction } from "express";
-import { PrismaClient } from "@prisma/client";
-import { generateRandomAvatar, generateAvatarTag } from "../utils/avatar";
+import { PrismaClient, Prisma } from "@prisma/client";
+import {
+  generateRandomAvatar,
+  generateAvatarTag,
+  avatarUrlFor,
+  avatarPreviewUrl,
+  avatarStyles,
+  isAvatarStyle,
+  renderAvatar,
+} from "../utils/avatar";
+import { hashPassword, verifyPassword } from "../utils/auth";
+import { issuePasswordReset } from "../utils/passwordReset";
+import { isModerator } from "../middlewares/auth";
+import { paginate } from "../utils/pagination";
+import {
+  newDeletionBatch,
+  softDeleteUser,
+  restoreDeletionBatch,
+  publishAffectedContent,
+} from "../utils/softDelete";
+import { ForbiddenError, NotFoundError, ConflictError } from "../utils/errors";
+import {
+  createUserRoute,
+  getUsersRoute,
+  getUserRoute,
+  getUserAvatarRoute,
+  getUserAvatarSettingsRoute,
+  updateUserAvatarRoute,
+  updateUserRoute,
+  deleteUserRoute,
+  restoreUserRoute,
+  updateUserRoleRoute,
+  createPasswordResetRoute,
+} from "../schemas/userSchemas";
 
-const prisma = new PrismaClient();
+// Never send password hashes back to clients
+const prisma = new PrismaClient({ omit: { user: { passwordHash: true } } });
+
+// Avatars only change when their style or seed does, so caches may keep
+// them briefly and revalidate against the ETag afterwards
+const AVATAR_CACHE_CONTROL = "public, max-age=60";
+
+type AvatarFields = {
+  id: number;
+  avatarUrl: string;
+  avatarStyle: string;
+  avatarSeed: string;
+};
+
+const presentAvatarSettings = (user: AvatarFields) => ({
+  style: user.avatarStyle,
+  seed: user.avatarSeed,
+  url: user.avatarUrl,
+  styles: avatarStyles.map((style) => ({
+    style,
+    previewUrl: avatarPreviewUrl(user.id, style),
+  })),
+});
 
-/**
- * @swagger
- * /users:
- *   post:
- *     summary: Create a new user
- *     tags: [Users]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/UserInput'
- *     responses:
- *       201:
- *         description: User created successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/User'
- *       400:
- *         description: Email and username are required
- *         content:
- *           application/json:
- *             example:
- *               success: false
- *               message: "Email and username are required"
- *       409:
- *         description: Email or username already exists
- *         content:
- *           application/json:
- *             example:
- *               success: false
- *               message: "Email or username already exists"
- */
 export const createUser = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { email, username } = req.body;
-  if (!email || !username) {
-    res
-      .status(400)
-      .json({ success: false, message: "Email and username are required" });
-    return;
-  }
+  const { email, username, password } = createUserRoute.input(req).body;
   try {
     const existingUser = await prisma.user.findFirst({
       where: { OR: [{ email }, { username }], deletedAt: null },
     });
     if (existingUser) {
-      res
-        .status(409)
-        .json({ success: false, message: "Email or username already exists" });
-      return;
+      throw new ConflictError("Email or username already exists");
     }
 
-    const avatarUrl = await generateRandomAvatar(email);
-    const avatarTag = generateAvatarTag(username, avatarUrl);
-    const user = await prisma.user.create({
-      data: { email, username, avatarUrl, avatarTag },
+    const passwordHash = await hashPassword(password);
+    // The avatar URL contains the new user's ID
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          username,
+          ...generateRandomAvatar(),
+          avatarUrl: "",
+          avatarTag: "",
+          passwordHash,
+        },
+      });
+      const avatarUrl = avatarUrlFor(created.id);
+      return tx.user.update({
+        where: { id: created.id },
+        data: { avatarUrl, avatarTag: generateAvatarTag(username, avatarUrl) },
+      });
     });
     res.status(201).json({ success: true, data: user });
   } catch (error) {
@@ -72,107 +97,46 @@ export const createUser = async (
   }
 };
 
-/**
- * @swagger
- * /users:
- *   get:
- *     summary: Retrieve all users
- *     description: Retrieves all users from the database, with options to include or only show soft-deleted users based on query parameters.
- *     tags: [Users]
- *     parameters:
- *       - in: query
- *         name: includeDeleted
- *         schema:
- *           type: string
- *           enum: [true, false]
- *         description: If true, includes both active and soft-deleted users; otherwise, only active users are returned
- *       - in: query
- *         name: onlyDeleted
- *         schema:
- *           type: string
- *           enum: [true, false]
- *         description: If true, returns only soft-deleted users
- *     responses:
- *       200:
- *         description: List of users
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/User'
- */
 export const getUsers = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { includeDeleted, onlyDeleted } = req.query as {
-    includeDeleted?: string;
-    onlyDeleted?: string;
-  };
+  const { includeDeleted, onlyDeleted, ...page } =
+    getUsersRoute.input(req).query;
+  if ((includeDeleted || onlyDeleted) && !isModerator(req.user)) {
+    throw new ForbiddenError("Only moderators can view deleted users");
+  }
   try {
-    let where: any = {};
+    let where: Prisma.UserWhereInput = {};
 
-    if (onlyDeleted === "true") {
+    if (onlyDeleted) {
       where = { deletedAt: { not: null } };
-    } else if (includeDeleted !== "true") {
+    } else if (!includeDeleted) {
       where = { deletedAt: null };
     } // Else, where remains {} for all records
 
-    const users = await prisma.user.findMany({ where });
-    res.status(200).json({ success: true, data: users });
+    const { data, pagination } = await paginate(page, where, "asc", (args) =>
+      prisma.user.findMany(args)
+    );
+    res.status(200).json({ success: true, data, pagination });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * /users/{id}:
- *   get:
- *     summary: Retrieve a single user
- *     tags: [Users]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The user ID
- *     responses:
- *       200:
- *         description: User details
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/User'
- *       404:
- *         description: User not found or deleted
- *         content:
- *           application/json:
- *             example:
- *               success: false
- *               message: "User not found"
- */
 export const getUser = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { id } = req.params;
+  const { id } = getUserRoute.input(req).params;
   try {
     const user = await prisma.user.findUnique({
-      where: { id: parseInt(id) },
+      where: { id },
     });
     if (!user || user.deletedAt) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
+      throw new NotFoundError("User not found");
     }
     res.status(200).json({ success: true, data: user });
   } catch (error) {
@@ -180,61 +144,120 @@ export const getUser = async (
   }
 };
 
-/**
- * @swagger
- * /users/{id}:
- *   put:
- *     summary: Update a user
- *     tags: [Users]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The user ID
- *     requestBody:
- *       required: false
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/UserInput'
- *     responses:
- *       200:
- *         description: User updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/User'
- *       404:
- *         description: User not found or deleted
- *         content:
- *           application/json:
- *             example:
- *               success: false
- *               message: "User not found"
- *       409:
- *         description: Email already in use by another user
- *         content:
- *           application/json:
- *             example:
- *               success: false
- *               message: "Email already in use by another user"
- */
+export const getUserAvatar = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, query } = getUserAvatarRoute.input(req);
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: {
+        username: true,
+        avatarStyle: true,
+        avatarSeed: true,
+        deletedAt: true,
+      },
+    });
+    if (!user || user.deletedAt) {
+      throw new NotFoundError("User not found");
+    }
+
+    const style =
+      query.style ??
+      (isAvatarStyle(user.avatarStyle) ? user.avatarStyle : "identicon");
+    // Express adds an ETag and answers 304 when it still matches
+    res
+      .status(200)
+      .set({
+        "Content-Type": "image/svg+xml",
+        "Cache-Control": AVATAR_CACHE_CONTROL,
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+        "X-Content-Type-Options": "nosniff",
+      })
+      .send(renderAvatar(style, query.seed ?? user.avatarSeed, user.username));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUserAvatarSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = getUserAvatarSettingsRoute.input(req).params;
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+    if (!user || user.deletedAt) {
+      throw new NotFoundError("User not found");
+    }
+    res.status(200).json({ success: true, data: presentAvatarSettings(user) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateUserAvatar = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = updateUserAvatarRoute.input(req);
+  if (req.user!.id !== params.id) {
+    throw new ForbiddenError("You can only change your own avatar");
+  }
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+    });
+    if (!user || user.deletedAt) {
+      throw new NotFoundError("User not found");
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { avatarStyle: body.style, avatarSeed: body.seed },
+    });
+    res
+      .status(200)
+      .json({ success: true, data: presentAvatarSettings(updatedUser) });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const updateUser = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { id } = req.params;
-  const { email, username } = req.body;
+  const { params, body } = updateUserRoute.input(req);
+  const { email, username, password, currentPassword } = body;
+  if (req.user!.id !== params.id) {
+    throw new ForbiddenError("You can only update your own account");
+  }
   try {
     const user = await prisma.user.findUnique({
-      where: { id: parseInt(id) },
+      where: { id: params.id },
+      omit: { passwordHash: false },
     });
     if (!user || user.deletedAt) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
+      throw new NotFoundError("User not found");
+    }
+
+    // A stolen access token alone must not be enough to take over the account
+    if (password !== undefined || (email && email !== user.email)) {
+      if (
+        !currentPassword ||
+        !user.passwordHash ||
+        !(await verifyPassword(currentPassword, user.passwordHash))
+      ) {
+        throw new ForbiddenError("Current password is incorrect");
+      }
     }
 
     if (email && email !== user.email) {
@@ -242,31 +265,31 @@ export const updateUser = async (
         where: { email },
       });
       if (existingUserWithEmail && existingUserWithEmail.id !== user.id) {
-        res
-          .status(409)
-          .json({
-            success: false,
-            message: "Email already in use by another user",
-          });
-        return;
+        throw new ConflictError("Email already in use by another user");
       }
     }
 
-    let avatarUrl = user.avatarUrl;
-    let avatarTag = user.avatarTag;
-    if (email && email !== user.email) {
-      avatarUrl = await generateRandomAvatar(email);
-      avatarTag = generateAvatarTag(username || user.username, avatarUrl);
-    }
-
-    const updatedUser = await prisma.user.update({
-      where: { id: parseInt(id) },
-      data: {
-        email: email || user.email,
-        username: username || user.username,
-        avatarUrl,
-        avatarTag,
-      },
+    const passwordHash =
+      password !== undefined ? await hashPassword(password) : undefined;
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: user.id },
+        data: {
+          email: email || user.email,
+          username: username || user.username,
+          // The tag's alt text names the user
+          avatarTag: generateAvatarTag(
+            username || user.username,
+            user.avatarUrl
+          ),
+          passwordHash,
+        },
+      });
+      // A new password ends every session signed in with the old one
+      if (passwordHash) {
+        await tx.refreshToken.deleteMany({ where: { userId: user.id } });
+      }
+      return updated;
     });
     res.status(200).json({ success: true, data: updatedUser });
   } catch (error) {
@@ -274,134 +297,108 @@ export const updateUser = async (
   }
 };
 
-/**
- * @swagger
- * /users/{id}:
- *   delete:
- *     summary: Soft-delete a user
- *     tags: [Users]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: The user ID
- *     responses:
- *       200:
- *         description: User soft-deleted successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/User'
- *       404:
- *         description: User not found or already deleted
- *         content:
- *           application/json:
- *             example:
- *               success: false
- *               message: "User not found"
- */
 export const deleteUser = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { id } = req.params;
+  const { id } = deleteUserRoute.input(req).params;
+  if (req.user!.id !== id) {
+    throw new ForbiddenError("You can only delete your own account");
+  }
   try {
     const user = await prisma.user.findUnique({
-      where: { id: parseInt(id) },
+      where: { id },
     });
     if (!user || user.deletedAt) {
-      res.status(404).json({ success: false, message: "User not found" });
-      return;
+      throw new NotFoundError("User not found");
     }
 
-    const deletedUser = await prisma.user.update({
-      where: { id: parseInt(id) },
-      data: { deletedAt: new Date() },
+    const batch = newDeletionBatch();
+    const [deletedUser, affected] = await prisma.$transaction(async (tx) => {
+      const affected = await softDeleteUser(tx, user.id, batch);
+      const deleted = await tx.user.findUniqueOrThrow({
+        where: { id: user.id },
+      });
+      return [deleted, affected] as const;
     });
+    publishAffectedContent(affected, "deleted");
     res.status(200).json({ success: true, data: deletedUser });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * @swagger
- * components:
- *   schemas:
- *     User:
- *       type: object
- *       properties:
- *         id:
- *           type: integer
- *         email:
- *           type: string
- *         username:
- *           type: string
- *         avatarUrl:
- *           type: string
- *         avatarTag:
- *           type: string
- *         createdAt:
- *           type: string
- *           format: date-time
- *         updatedAt:
- *           type: string
- *           format: date-time
- *         deletedAt:
- *           type: string
- *           format: date-time
- *           nullable: true
- *     UserInput:
- *       type: object
- *       required:
- *         - email
- *         - username
- *       properties:
- *         email:
- *           type: string
- *         username:
- *           type: string
- *     Post:
- *       type: object
- *       properties:
- *         id:
- *           type: integer
- *         content:
- *           type: string
- *         userId:
- *           type: integer
- *         createdAt:
- *           type: string
- *           format: date-time
- *         updatedAt:
- *           type: string
- *           format: date-time
- *         deletedAt:
- *           type: string
- *           format: date-time
- *           nullable: true
- *     Comment:
- *       type: object
- *       properties:
- *         id:
- *           type: integer
- *         content:
- *           type: string
- *         userId:
- *           type: integer
- *         postId:
- *           type: integer
- *         createdAt:
- *           type: string
- *           format: date-time
- *         updatedAt:
- *           type: string
- *           format: date-time
- *         deletedAt:
- *           type: string
- *           format: date-time
- *           nullable: true
- */
+export const restoreUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = restoreUserRoute.input(req).params;
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+    if (!user || !user.deletedAt) {
+      throw new NotFoundError("Deleted user not found");
+    }
+
+    const [restoredUser, affected] = await prisma.$transaction(async (tx) => {
+      const affected = await restoreDeletionBatch(tx, user.deletionBatchId!);
+      const restored = await tx.user.findUniqueOrThrow({
+        where: { id: user.id },
+      });
+      return [restored, affected] as const;
+    });
+    publishAffectedContent(affected, "restored");
+    res.status(200).json({ success: true, data: restoredUser });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params, body } = updateUserRoleRoute.input(req);
+  const { role } = body;
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+    });
+    if (!user || user.deletedAt) {
+      throw new NotFoundError("User not found");
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: { role },
+    });
+    res.status(200).json({ success: true, data: updatedUser });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createPasswordReset = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { params } = createPasswordResetRoute.input(req);
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+    });
+    if (!user || user.deletedAt) {
+      throw new NotFoundError("User not found");
+    }
+
+    const data = await issuePasswordReset(user.id);
+    res.status(201).json({ success: true, data });
+  } catch (error) {
+    next(error);
+  }
+};
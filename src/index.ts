@@ -1,30 +1,83 @@
 import express from "express";
+import authRoutes from "./routes/authRoutes";
 import userRoutes from "./routes/userRoutes";
+import followRoutes from "./routes/followRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
 import postRoutes from "./routes/postRoutes";
 import commentRoutes from "./routes/commentRoutes";
+import reactionRoutes from "./routes/reactionRoutes";
+import revisionRoutes from "./routes/revisionRoutes";
+import searchRoutes from "./routes/searchRoutes";
+import tagRoutes from "./routes/tagRoutes";
+import reportRoutes from "./routes/reportRoutes";
+import attachmentRoutes from "./routes/attachmentRoutes";
+import bookmarkRoutes from "./routes/bookmarkRoutes";
+import messageRoutes from "./routes/messageRoutes";
+import boardRoutes from "./routes/boardRoutes";
 import { setupSwagger } from "./swagger";
+import { requestId } from "./middlewares/requestId";
+import { rateLimit } from "./middlewares/rateLimit";
+import { watchContentPolicy } from "./utils/contentPolicy";
+import errorHandler, { notFoundHandler } from "./middlewares/errorHandler";
 import cors from "cors"; 
 
 
+// Load the content policy and pick up edits to it while running
+watchContentPolicy();
+
 const app = express();
 const port = process.env.PORT || 3000;
 
+// Reverse proxies in front of the app, as a hop count (e.g. TRUST_PROXY=1 on
+// Render) or addresses, so req.ip is the client and rate limits are per client
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Add CORS middleware
 app.use(cors({
   origin: "*",
   methods: ["GET", "POST", "PUT", "DELETE"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "Last-Event-ID", "X-Request-ID"],
+  exposedHeaders: [
+    "X-Request-ID",
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+    "RateLimit-Policy",
+    "Retry-After",
+  ],
 }));
 
+app.use(requestId);
+app.use(rateLimit("global"));
+
 app.use(express.json());
+app.use("/auth", authRoutes);
 app.use("/users", userRoutes);
+app.use("/users", followRoutes);
+app.use("/users", notificationRoutes);
 app.use("/", postRoutes); // Mount posts at root since /posts is the base
 app.use("/", commentRoutes); // Mount comments at root for nested routes
+app.use("/", reactionRoutes); // Reactions live under post and comment paths
+app.use("/", revisionRoutes); // Edit history lives under post and comment paths
+app.use("/search", searchRoutes);
+app.use("/tags", tagRoutes);
+app.use("/", reportRoutes); // Reports are filed under post, comment and user paths
+app.use("/", attachmentRoutes); // Images live under post paths
+app.use("/collections", bookmarkRoutes);
+app.use("/conversations", messageRoutes);
+app.use("/boards", boardRoutes);
 
 
 // Swagger setup
 setupSwagger(app);
 
+// Unmatched routes and errors thrown by handlers become problem+json responses
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 app.listen(port, () => {
   console.log(`Server running on port ${port}`);
 });
\ No newline at end of file
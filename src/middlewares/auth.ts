@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Role } from "@prisma/client";
+import { verifyAccessToken } from "../utils/auth";
+import { UnauthorizedError, ForbiddenError } from "../utils/errors";
+
+const prisma = new PrismaClient();
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const getBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  return header.slice("Bearer ".length).trim();
+};
+
+// Resolves the acting (non-deleted) user from an access token, or null.
+// Throws for suspended users so they are not mistaken for anonymous ones.
+const resolveUser = async (token: string): Promise<AuthUser | null> => {
+  const payload = verifyAccessToken(token);
+  if (!payload) {
+    return null;
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: payload.sub, deletedAt: null },
+    select: { id: true, username: true, role: true, suspendedUntil: true },
+  });
+  if (!user) {
+    return null;
+  }
+  const { suspendedUntil, ...authUser } = user;
+  assertNotSuspended(suspendedUntil);
+  return authUser;
+};
+
+/**
+ * Requires a valid `Authorization: Bearer <accessToken>` header and
+ * populates `req.user` with the acting (non-deleted) user.
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = getBearerToken(req);
+  if (!token) {
+    next(new UnauthorizedError("Authentication required"));
+    return;
+  }
+  try {
+    const user = await resolveUser(token);
+    if (!user) {
+      throw new UnauthorizedError("Invalid or expired token");
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Populates `req.user` when a valid bearer token is present, but lets
+ * anonymous requests through. Used on public read endpoints whose
+ * behaviour depends on who is asking.
+ */
+export const optionalAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = getBearerToken(req);
+  if (!token) {
+    next();
+    return;
+  }
+  try {
+    const user = await resolveUser(token);
+    if (!user) {
+      throw new UnauthorizedError("Invalid or expired token");
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restricts a route to the given roles. Must run after `authenticate`.
+ */
+export const requireRole =
+  (...roles: Role[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      next(new ForbiddenError("Insufficient role"));
+      return;
+    }
+    next();
+  };
+
+// Moderator powers are shared by moderators and admins
+export const isModerator = (user?: AuthUser): boolean =>
+  !!user && (user.role === Role.MODERATOR || user.role === Role.ADMIN);
+
+// Refuses users whose suspension has not yet run out
+export const assertNotSuspended = (suspendedUntil: Date | null): void => {
+  if (suspendedUntil && suspendedUntil > new Date()) {
+    throw new ForbiddenError(
+      `Account suspended until ${suspendedUntil.toISOString()}`
+    );
+  }
+};
@@ -1,8 +1,126 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from "express";
+import { STATUS_CODES } from "http";
+import { Prisma } from "@prisma/client";
+import { HttpError, NotFoundError } from "../utils/errors";
 
-const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error(err.stack);
-  res.status(500).send('Something broke!');
+interface Problem {
+  status: number;
+  detail: string;
+  extensions?: Record<string, unknown>;
+}
+
+// Prisma error codes caused by the request's data rather than the server
+const PRISMA_BAD_INPUT = new Set([
+  "P2000", // value too long for the column
+  "P2003", // foreign key points at a missing row
+  "P2005", // invalid value for the field type
+  "P2006", // invalid value
+  "P2007", // data validation error
+  "P2011", // null constraint violation
+  "P2012", // missing required value
+  "P2019", // input error
+  "P2020", // value out of range
+  "P2023", // inconsistent column data (e.g. malformed id)
+]);
+
+const fromPrismaError = (
+  error: Prisma.PrismaClientKnownRequestError
+): Problem | null => {
+  if (error.code === "P2002") {
+    const target = error.meta?.target;
+    const fields = Array.isArray(target) ? target.join(", ") : target;
+    return {
+      status: 409,
+      detail: fields
+        ? `A record with this ${fields} already exists`
+        : "A record with these values already exists",
+    };
+  }
+  if (error.code === "P2025" || error.code === "P2001") {
+    return { status: 404, detail: "Record not found" };
+  }
+  if (PRISMA_BAD_INPUT.has(error.code)) {
+    return { status: 400, detail: "Invalid input" };
+  }
+  return null;
+};
+
+const toProblem = (err: unknown): Problem => {
+  if (err instanceof HttpError) {
+    return {
+      status: err.status,
+      detail: err.message,
+      extensions: err.extensions,
+    };
+  }
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    const problem = fromPrismaError(err);
+    if (problem) {
+      return problem;
+    }
+  }
+  if (err instanceof Prisma.PrismaClientValidationError) {
+    return { status: 400, detail: "Invalid input" };
+  }
+  // Errors raised by Express itself, e.g. a malformed JSON body
+  const status = (err as { status?: number })?.status;
+  if (
+    typeof status === "number" &&
+    status >= 400 &&
+    status < 500 &&
+    (err as { expose?: boolean }).expose
+  ) {
+    return { status, detail: (err as Error).message };
+  }
+  return { status: 500, detail: "An unexpected error occurred" };
+};
+
+/**
+ * Renders every error as an RFC 7807 problem document. Unexpected errors
+ * are logged with the request ID and reported without internal details.
+ */
+const errorHandler = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  const { status, detail, extensions } = toProblem(err);
+  if (status >= 500) {
+    console.error(`[${req.id}]`, err);
+  }
+  if (status === 401) {
+    res.set("WWW-Authenticate", "Bearer");
+  }
+  if (status === 429) {
+    res.set("Retry-After", String(extensions?.retryAfter));
+  }
+  res
+    .status(status)
+    .type("application/problem+json")
+    .json({
+      type: "about:blank",
+      title: STATUS_CODES[status],
+      status,
+      detail,
+      instance: req.originalUrl,
+      requestId: req.id,
+      success: false,
+      ...extensions,
+    });
+};
+
+// Catch-all for requests no route matched
+export const notFoundHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  next(new NotFoundError(`Cannot ${req.method} ${req.path}`));
 };
 
-export default errorHandler;
\ No newline at end of file
+export default errorHandler;
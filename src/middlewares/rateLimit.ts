@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from "express";
+import { getRateLimitStore, RateLimitHit } from "../utils/rateLimitStore";
+import { TooManyRequestsError } from "../utils/errors";
+
+interface RateLimit {
+  windowMs: number;
+  // Requests per window for each authenticated user; 0 disables the bucket
+  perUser: number;
+  // Requests per window for each client IP, signed in or not
+  perIp: number;
+}
+
+/**
+ * Default limits per route group. Each can be overridden with
+ * RATE_LIMIT_<GROUP>_WINDOW (seconds), RATE_LIMIT_<GROUP>_USER and
+ * RATE_LIMIT_<GROUP>_IP, e.g. RATE_LIMIT_CREATE_USER=3.
+ */
+const DEFAULT_LIMITS = {
+  // Every request, counted before authentication
+  global: { windowMs: 60_000, perUser: 0, perIp: 600 },
+  // Login, token refresh and sign-up: guards against credential stuffing
+  auth: { windowMs: 15 * 60_000, perUser: 0, perIp: 30 },
+  // Authenticated writes other than new content
+  write: { windowMs: 60_000, perUser: 60, perIp: 180 },
+  // New posts and comments: the spam throttle
+  create: { windowMs: 60_000, perUser: 5, perIp: 20 },
+  // Direct messages: conversational, so looser than public content
+  message: { windowMs: 60_000, perUser: 30, perIp: 90 },
+} satisfies Record<string, RateLimit>;
+
+export type RateLimitGroup = keyof typeof DEFAULT_LIMITS;
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value >= 0
+    ? value
+    : fallback;
+};
+
+const loadLimit = (group: RateLimitGroup): RateLimit => {
+  const defaults: RateLimit = DEFAULT_LIMITS[group];
+  const prefix = `RATE_LIMIT_${group.toUpperCase()}`;
+  return {
+    windowMs: envNumber(`${prefix}_WINDOW`, defaults.windowMs / 1000) * 1000,
+    perUser: envNumber(`${prefix}_USER`, defaults.perUser),
+    perIp: envNumber(`${prefix}_IP`, defaults.perIp),
+  };
+};
+
+interface Bucket {
+  key: string;
+  max: number;
+}
+
+/**
+ * Limits requests per user and per client IP for a route group, counting in
+ * fixed windows in the rate limit store. The most constrained bucket is
+ * reported in RateLimit-* headers; once any bucket is exhausted the request
+ * fails with 429 and Retry-After. Run it after `authenticate` so the user
+ * bucket applies; before it, only the IP is known.
+ */
+export const rateLimit = (group: RateLimitGroup) => {
+  const limit = loadLimit(group);
+
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const buckets: Bucket[] = [];
+    if (req.user && limit.perUser > 0) {
+      buckets.push({
+        key: `${group}:user:${req.user.id}`,
+        max: limit.perUser,
+      });
+    }
+    if (limit.perIp > 0) {
+      buckets.push({ key: `${group}:ip:${req.ip}`, max: limit.perIp });
+    }
+    if (!buckets.length) {
+      next();
+      return;
+    }
+
+    let hits: (Bucket & RateLimitHit)[];
+    try {
+      const store = getRateLimitStore();
+      hits = await Promise.all(
+        buckets.map(async (bucket) => ({
+          ...bucket,
+          ...(await store.hit(bucket.key, limit.windowMs)),
+        }))
+      );
+    } catch (error) {
+      // A store outage should not take the whole API down with it
+      console.error(`[${req.id}] Rate limit store failed:`, error);
+      next();
+      return;
+    }
+
+    const tightest = hits.reduce((a, b) =>
+      b.max - b.count < a.max - a.count ? b : a
+    );
+    const remaining = Math.max(0, tightest.max - tightest.count);
+    const reset = Math.max(
+      0,
+      Math.ceil((tightest.resetAt - Date.now()) / 1000)
+    );
+
+    // A route group's limiter runs after the global one; keep whichever
+    // leaves the caller fewer requests
+    const reported = res.get("RateLimit-Remaining");
+    if (reported === undefined || remaining <= Number(reported)) {
+      res.set({
+        "RateLimit-Limit": String(tightest.max),
+        "RateLimit-Remaining": String(remaining),
+        "RateLimit-Reset": String(reset),
+        "RateLimit-Policy": `${tightest.max};w=${limit.windowMs / 1000}`,
+      });
+    }
+
+    const exceeded = hits.find((hit) => hit.count > hit.max);
+    if (exceeded) {
+      const retryAfter = Math.max(
+        1,
+        Math.ceil((exceeded.resetAt - Date.now()) / 1000)
+      );
+      next(
+        new TooManyRequestsError(
+          `Too many requests; try again in ${retryAfter} seconds`,
+          retryAfter
+        )
+      );
+      return;
+    }
+    next();
+  };
+};
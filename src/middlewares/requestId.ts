@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+
+declare global {
+  namespace Express {
+    interface Request {
+      id: string;
+    }
+  }
+}
+
+// Caller-supplied IDs are only reused if they are short and plain
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Tags every request with an ID, reusing a valid incoming `X-Request-ID`
+ * (e.g. from a proxy) or generating one, and echoes it in the response so
+ * error reports can be matched to server logs.
+ */
+export const requestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const incoming = req.get("X-Request-ID");
+  req.id =
+    incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.set("X-Request-ID", req.id);
+  next();
+};
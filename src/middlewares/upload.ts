@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { MAX_IMAGE_BYTES } from "../utils/images";
+import { BadRequestError, PayloadTooLargeError } from "../utils/errors";
+
+/**
+ * Parses a multipart/form-data body and keeps up to `maxCount` files sent
+ * in `field` in memory as `req.files`, for the controller to validate and
+ * store. Multer's limit errors become 400 and 413 problems.
+ */
+export const uploadImages = (field: string, maxCount: number) => {
+  const parse = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_IMAGE_BYTES, files: maxCount },
+  }).array(field, maxCount);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    parse(req, res, (error: unknown) => {
+      if (!(error instanceof multer.MulterError)) {
+        next(error);
+        return;
+      }
+      if (error.code === "LIMIT_FILE_SIZE") {
+        next(
+          new PayloadTooLargeError(
+            `Images must be at most ${MAX_IMAGE_BYTES} bytes`
+          )
+        );
+        return;
+      }
+      if (
+        error.code === "LIMIT_FILE_COUNT" ||
+        error.code === "LIMIT_UNEXPECTED_FILE"
+      ) {
+        next(
+          new BadRequestError(
+            `Send up to ${maxCount} images in the "${field}" field`
+          )
+        );
+        return;
+      }
+      next(new BadRequestError(error.message));
+    });
+  };
+};
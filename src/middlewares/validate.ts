@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from "express";
+import { RouteSpec } from "../schemas/registry";
+import { BadRequestError } from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by `validate`; read it through the route's `input(req)`
+      input?: { params: unknown; query: unknown; body: unknown };
+    }
+  }
+}
+
+const LOCATIONS = ["params", "query", "body"] as const;
+
+/**
+ * Validates and coerces a request against its route's params, query and
+ * body schemas before the controller runs. Every failing field is reported
+ * at once in the 400 problem's `errors` list.
+ */
+export const validate =
+  (route: RouteSpec) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const errors: { location: string; path: string; message: string }[] = [];
+    const input = { params: {}, query: {}, body: {} } as Record<
+      (typeof LOCATIONS)[number],
+      unknown
+    >;
+
+    for (const location of LOCATIONS) {
+      const schema = route[location];
+      if (!schema) {
+        continue;
+      }
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        input[location] = result.data;
+      } else {
+        for (const issue of result.error.issues) {
+          errors.push({
+            location,
+            path: issue.path.join("."),
+            message: issue.message,
+          });
+        }
+      }
+    }
+
+    if (errors.length) {
+      next(new BadRequestError("Request validation failed", { errors }));
+      return;
+    }
+    req.input = input as Request["input"];
+    next();
+  };
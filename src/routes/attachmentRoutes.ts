@@ -0,0 +1,39 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  uploadPostAttachments,
+  getAttachmentImage,
+  getAttachmentThumbnail,
+  deletePostAttachment
+} from "../controllers/attachmentController";
+import { authenticate, optionalAuth } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import { uploadImages } from "../middlewares/upload";
+import {
+  uploadPostAttachmentsRoute,
+  getAttachmentImageRoute,
+  getAttachmentThumbnailRoute,
+  deletePostAttachmentRoute,
+  MAX_POST_ATTACHMENTS,
+  ATTACHMENT_FIELD
+} from "../schemas/attachmentSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Attach images to a post (multipart) - POST /posts/:id/attachments
+router.post("/posts/:id/attachments", authenticate, rateLimit("write"), validate(uploadPostAttachmentsRoute), uploadImages(ATTACHMENT_FIELD, MAX_POST_ATTACHMENTS), asyncHandler(uploadPostAttachments));
+
+// Download an attached image - GET /posts/:id/attachments/:attachmentId
+router.get("/posts/:id/attachments/:attachmentId", optionalAuth, validate(getAttachmentImageRoute), asyncHandler(getAttachmentImage));
+
+// Download an attached image's thumbnail - GET /posts/:id/attachments/:attachmentId/thumbnail
+router.get("/posts/:id/attachments/:attachmentId/thumbnail", optionalAuth, validate(getAttachmentThumbnailRoute), asyncHandler(getAttachmentThumbnail));
+
+// Remove an image from a post - DELETE /posts/:id/attachments/:attachmentId
+router.delete("/posts/:id/attachments/:attachmentId", authenticate, rateLimit("write"), validate(deletePostAttachmentRoute), asyncHandler(deletePostAttachment));
+
+export default router;
@@ -0,0 +1,27 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { login, refresh, logout, resetPassword } from "../controllers/authController";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import { loginRoute, refreshRoute, logoutRoute, resetPasswordRoute } from "../schemas/authSchemas";
+
+// Explicitly type router as Router
+const router: Router = express.Router();
+
+// Wrap async handlers to handle errors and promises correctly
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Log in - POST /auth/login
+router.post("/login", rateLimit("auth"), validate(loginRoute), asyncHandler(login));
+
+// Rotate tokens - POST /auth/refresh
+router.post("/refresh", rateLimit("auth"), validate(refreshRoute), asyncHandler(refresh));
+
+// Log out - POST /auth/logout
+router.post("/logout", rateLimit("auth"), validate(logoutRoute), asyncHandler(logout));
+
+// Set a new password with a reset token - POST /auth/password-reset
+router.post("/password-reset", rateLimit("auth"), validate(resetPasswordRoute), asyncHandler(resetPassword));
+
+export default router;
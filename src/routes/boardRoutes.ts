@@ -0,0 +1,66 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  getBoards,
+  createBoard,
+  getBoard,
+  updateBoard,
+  getBoardPosts,
+  getBoardMembers,
+  joinBoard,
+  setBoardMember,
+  removeBoardMember,
+  updateBoardLayout
+} from "../controllers/boardController";
+import { authenticate, optionalAuth } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  getBoardsRoute,
+  createBoardRoute,
+  getBoardRoute,
+  updateBoardRoute,
+  getBoardPostsRoute,
+  getBoardMembersRoute,
+  joinBoardRoute,
+  setBoardMemberRoute,
+  removeBoardMemberRoute,
+  updateBoardLayoutRoute
+} from "../schemas/boardSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// List the boards you can see - GET /boards
+router.get("/", optionalAuth, validate(getBoardsRoute), asyncHandler(getBoards));
+
+// Create a board - POST /boards
+router.post("/", authenticate, rateLimit("create"), validate(createBoardRoute), asyncHandler(createBoard));
+
+// Retrieve a board - GET /boards/:id
+router.get("/:id", optionalAuth, validate(getBoardRoute), asyncHandler(getBoard));
+
+// Update a board - PUT /boards/:id
+router.put("/:id", authenticate, rateLimit("write"), validate(updateBoardRoute), asyncHandler(updateBoard));
+
+// Retrieve the posts on a board - GET /boards/:id/posts
+router.get("/:id/posts", optionalAuth, validate(getBoardPostsRoute), asyncHandler(getBoardPosts));
+
+// Move, resize or restyle notes on a board - PUT /boards/:id/layout
+router.put("/:id/layout", authenticate, rateLimit("write"), validate(updateBoardLayoutRoute), asyncHandler(updateBoardLayout));
+
+// List a board's members - GET /boards/:id/members
+router.get("/:id/members", optionalAuth, validate(getBoardMembersRoute), asyncHandler(getBoardMembers));
+
+// Join a public board - POST /boards/:id/members
+router.post("/:id/members", authenticate, rateLimit("write"), validate(joinBoardRoute), asyncHandler(joinBoard));
+
+// Add a member or change their role - PUT /boards/:id/members/:userId
+router.put("/:id/members/:userId", authenticate, rateLimit("write"), validate(setBoardMemberRoute), asyncHandler(setBoardMember));
+
+// Remove a member or leave a board - DELETE /boards/:id/members/:userId
+router.delete("/:id/members/:userId", authenticate, rateLimit("write"), validate(removeBoardMemberRoute), asyncHandler(removeBoardMember));
+
+export default router;
@@ -0,0 +1,51 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  getCollections,
+  createCollection,
+  renameCollection,
+  deleteCollection,
+  getCollectionPosts,
+  addBookmark,
+  removeBookmark
+} from "../controllers/bookmarkController";
+import { authenticate } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  getCollectionsRoute,
+  createCollectionRoute,
+  renameCollectionRoute,
+  deleteCollectionRoute,
+  getCollectionPostsRoute,
+  addBookmarkRoute,
+  removeBookmarkRoute
+} from "../schemas/bookmarkSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// List your bookmark collections - GET /collections
+router.get("/", authenticate, validate(getCollectionsRoute), asyncHandler(getCollections));
+
+// Create a bookmark collection - POST /collections
+router.post("/", authenticate, rateLimit("write"), validate(createCollectionRoute), asyncHandler(createCollection));
+
+// Rename a bookmark collection - PUT /collections/:id
+router.put("/:id", authenticate, rateLimit("write"), validate(renameCollectionRoute), asyncHandler(renameCollection));
+
+// Delete a bookmark collection - DELETE /collections/:id
+router.delete("/:id", authenticate, rateLimit("write"), validate(deleteCollectionRoute), asyncHandler(deleteCollection));
+
+// List the posts in a collection - GET /collections/:id/posts
+router.get("/:id/posts", authenticate, validate(getCollectionPostsRoute), asyncHandler(getCollectionPosts));
+
+// Bookmark a post into a collection - POST /collections/:id/posts
+router.post("/:id/posts", authenticate, rateLimit("write"), validate(addBookmarkRoute), asyncHandler(addBookmark));
+
+// Remove a post from a collection - DELETE /collections/:id/posts/:postId
+router.delete("/:id/posts/:postId", authenticate, rateLimit("write"), validate(removeBookmarkRoute), asyncHandler(removeBookmark));
+
+export default router;
@@ -2,10 +2,28 @@ import express, { Router, Request, Response, NextFunction } from "express";
 import { 
   createComment, 
   getComments, 
+  streamComments,
   getComment, 
   updateComment, 
-  deleteComment 
+  deleteComment,
+  restoreComment,
+  hideComment,
+  unhideComment
 } from "../controllers/commentController";
+import { authenticate, optionalAuth, requireRole } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  createCommentRoute,
+  getCommentsRoute,
+  streamCommentsRoute,
+  getCommentRoute,
+  updateCommentRoute,
+  deleteCommentRoute,
+  restoreCommentRoute,
+  hideCommentRoute,
+  unhideCommentRoute
+} from "../schemas/commentSchemas";
 
 const router: Router = express.Router();
 
@@ -14,18 +32,30 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
     Promise.resolve(fn(req, res, next)).catch(next);
 
 // Create a comment - POST /posts/:postId/comments
-router.post("/posts/:postId/comments", asyncHandler(createComment));
+router.post("/posts/:postId/comments", authenticate, rateLimit("create"), validate(createCommentRoute), asyncHandler(createComment));
 
 // Get all comments under a post - GET /posts/:postId/comments
-router.get("/posts/:postId/comments", asyncHandler(getComments));
+router.get("/posts/:postId/comments", optionalAuth, validate(getCommentsRoute), asyncHandler(getComments));
+
+// Stream live comment updates (SSE) - GET /posts/:postId/comments/stream
+router.get("/posts/:postId/comments/stream", optionalAuth, validate(streamCommentsRoute), asyncHandler(streamComments));
 
 // Get a single comment - GET /posts/:postId/comments/:id
-router.get("/posts/:postId/comments/:id", asyncHandler(getComment));
+router.get("/posts/:postId/comments/:id", optionalAuth, validate(getCommentRoute), asyncHandler(getComment));
 
 // Update a comment - PUT /posts/:postId/comments/:id
-router.put("/posts/:postId/comments/:id", asyncHandler(updateComment));
+router.put("/posts/:postId/comments/:id", authenticate, rateLimit("write"), validate(updateCommentRoute), asyncHandler(updateComment));
 
 // Delete a comment (soft delete) - DELETE /posts/:postId/comments/:id
-router.delete("/posts/:postId/comments/:id", asyncHandler(deleteComment));
+router.delete("/posts/:postId/comments/:id", authenticate, rateLimit("write"), validate(deleteCommentRoute), asyncHandler(deleteComment));
+
+// Restore a soft-deleted comment - POST /posts/:postId/comments/:id/restore
+router.post("/posts/:postId/comments/:id/restore", authenticate, rateLimit("write"), validate(restoreCommentRoute), asyncHandler(restoreComment));
+
+// Hide a comment (moderators only) - POST /posts/:postId/comments/:id/hide
+router.post("/posts/:postId/comments/:id/hide", authenticate, rateLimit("write"), requireRole("MODERATOR", "ADMIN"), validate(hideCommentRoute), asyncHandler(hideComment));
+
+// Unhide a comment (moderators only) - POST /posts/:postId/comments/:id/unhide
+router.post("/posts/:postId/comments/:id/unhide", authenticate, rateLimit("write"), requireRole("MODERATOR", "ADMIN"), validate(unhideCommentRoute), asyncHandler(unhideComment));
 
 export default router;
\ No newline at end of file
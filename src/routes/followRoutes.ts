@@ -0,0 +1,36 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  followUser,
+  unfollowUser,
+  getFollowers,
+  getFollowing
+} from "../controllers/followController";
+import { authenticate } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  followUserRoute,
+  unfollowUserRoute,
+  getFollowersRoute,
+  getFollowingRoute
+} from "../schemas/followSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Follow a user - POST /users/:id/follow
+router.post("/:id/follow", authenticate, rateLimit("write"), validate(followUserRoute), asyncHandler(followUser));
+
+// Unfollow a user - DELETE /users/:id/follow
+router.delete("/:id/follow", authenticate, rateLimit("write"), validate(unfollowUserRoute), asyncHandler(unfollowUser));
+
+// List a user's followers - GET /users/:id/followers
+router.get("/:id/followers", validate(getFollowersRoute), asyncHandler(getFollowers));
+
+// List who a user follows - GET /users/:id/following
+router.get("/:id/following", validate(getFollowingRoute), asyncHandler(getFollowing));
+
+export default router;
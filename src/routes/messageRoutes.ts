@@ -0,0 +1,61 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  getConversations,
+  getUnreadMessageCount,
+  createConversation,
+  getConversation,
+  getMessages,
+  sendMessage,
+  updateMessage,
+  deleteMessage,
+  markConversationRead
+} from "../controllers/messageController";
+import { authenticate } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  getConversationsRoute,
+  getUnreadMessageCountRoute,
+  createConversationRoute,
+  getConversationRoute,
+  getMessagesRoute,
+  sendMessageRoute,
+  updateMessageRoute,
+  deleteMessageRoute,
+  markConversationReadRoute
+} from "../schemas/messageSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// List your conversations - GET /conversations
+router.get("/", authenticate, validate(getConversationsRoute), asyncHandler(getConversations));
+
+// Count your unread messages - GET /conversations/unread-count
+router.get("/unread-count", authenticate, validate(getUnreadMessageCountRoute), asyncHandler(getUnreadMessageCount));
+
+// Start a conversation - POST /conversations
+router.post("/", authenticate, rateLimit("write"), validate(createConversationRoute), asyncHandler(createConversation));
+
+// Get a single conversation - GET /conversations/:id
+router.get("/:id", authenticate, validate(getConversationRoute), asyncHandler(getConversation));
+
+// List a conversation's messages - GET /conversations/:id/messages
+router.get("/:id/messages", authenticate, validate(getMessagesRoute), asyncHandler(getMessages));
+
+// Send a message - POST /conversations/:id/messages
+router.post("/:id/messages", authenticate, rateLimit("message"), validate(sendMessageRoute), asyncHandler(sendMessage));
+
+// Edit a message - PUT /conversations/:id/messages/:messageId
+router.put("/:id/messages/:messageId", authenticate, rateLimit("write"), validate(updateMessageRoute), asyncHandler(updateMessage));
+
+// Delete a message (soft delete) - DELETE /conversations/:id/messages/:messageId
+router.delete("/:id/messages/:messageId", authenticate, rateLimit("write"), validate(deleteMessageRoute), asyncHandler(deleteMessage));
+
+// Mark a conversation as read - POST /conversations/:id/read
+router.post("/:id/read", authenticate, rateLimit("write"), validate(markConversationReadRoute), asyncHandler(markConversationRead));
+
+export default router;
@@ -0,0 +1,36 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationRead,
+  markAllNotificationsRead
+} from "../controllers/notificationController";
+import { authenticate } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  getNotificationsRoute,
+  getUnreadCountRoute,
+  markAllNotificationsReadRoute,
+  markNotificationReadRoute
+} from "../schemas/notificationSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// List notifications - GET /users/:id/notifications
+router.get("/:id/notifications", authenticate, validate(getNotificationsRoute), asyncHandler(getNotifications));
+
+// Count unread notifications - GET /users/:id/notifications/unread-count
+router.get("/:id/notifications/unread-count", authenticate, validate(getUnreadCountRoute), asyncHandler(getUnreadCount));
+
+// Mark all notifications read - POST /users/:id/notifications/read-all
+router.post("/:id/notifications/read-all", authenticate, rateLimit("write"), validate(markAllNotificationsReadRoute), asyncHandler(markAllNotificationsRead));
+
+// Mark one notification read - POST /users/:id/notifications/:notificationId/read
+router.post("/:id/notifications/:notificationId/read", authenticate, rateLimit("write"), validate(markNotificationReadRoute), asyncHandler(markNotificationRead));
+
+export default router;
@@ -2,10 +2,32 @@ import express, { Router, Request, Response, NextFunction } from "express";
 import { 
   createPost, 
   getPosts, 
+  getFeed,
+  streamPosts,
   getPost, 
+  getPostQuotes,
   updatePost, 
-  deletePost 
+  deletePost,
+  restorePost,
+  hidePost,
+  unhidePost
 } from "../controllers/postController";
+import { authenticate, optionalAuth, requireRole } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  createPostRoute,
+  getPostsRoute,
+  getFeedRoute,
+  streamPostsRoute,
+  getPostRoute,
+  getPostQuotesRoute,
+  updatePostRoute,
+  deletePostRoute,
+  restorePostRoute,
+  hidePostRoute,
+  unhidePostRoute
+} from "../schemas/postSchemas";
 
 // Explicitly type router as Router
 const router: Router = express.Router();
@@ -16,18 +38,36 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
     Promise.resolve(fn(req, res, next)).catch(next);
 
 // Create a new post - POST /posts
-router.post("/posts", asyncHandler(createPost));
+router.post("/posts", authenticate, rateLimit("create"), validate(createPostRoute), asyncHandler(createPost));
 
 // Get all uposts - GET /posts
-router.get("/posts", asyncHandler(getPosts));
+router.get("/posts", optionalAuth, validate(getPostsRoute), asyncHandler(getPosts));
+
+// Stream live post updates (SSE) - GET /posts/stream
+router.get("/posts/stream", validate(streamPostsRoute), asyncHandler(streamPosts));
+
+// Get posts from followed users - GET /feed
+router.get("/feed", authenticate, validate(getFeedRoute), asyncHandler(getFeed));
 
 // Get a single post - GET /posts/:id
-router.get("/posts/:id", asyncHandler(getPost));
+router.get("/posts/:id", optionalAuth, validate(getPostRoute), asyncHandler(getPost));
+
+// List the posts quoting a post - GET /posts/:id/quotes
+router.get("/posts/:id/quotes", optionalAuth, validate(getPostQuotesRoute), asyncHandler(getPostQuotes));
 
 // Update a post - PUT /posts/:id
-router.put("/posts/:id", asyncHandler(updatePost));
+router.put("/posts/:id", authenticate, rateLimit("write"), validate(updatePostRoute), asyncHandler(updatePost));
 
 // Delete a post (soft delete) - DELETE /posts/:id
-router.delete("/posts/:id", asyncHandler(deletePost));
+router.delete("/posts/:id", authenticate, rateLimit("write"), validate(deletePostRoute), asyncHandler(deletePost));
+
+// Restore a soft-deleted post - POST /posts/:id/restore
+router.post("/posts/:id/restore", authenticate, rateLimit("write"), validate(restorePostRoute), asyncHandler(restorePost));
+
+// Hide a post (moderators only) - POST /posts/:id/hide
+router.post("/posts/:id/hide", authenticate, rateLimit("write"), requireRole("MODERATOR", "ADMIN"), validate(hidePostRoute), asyncHandler(hidePost));
+
+// Unhide a post (moderators only) - POST /posts/:id/unhide
+router.post("/posts/:id/unhide", authenticate, rateLimit("write"), requireRole("MODERATOR", "ADMIN"), validate(unhidePostRoute), asyncHandler(unhidePost));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,36 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  setPostReaction,
+  removePostReaction,
+  setCommentReaction,
+  removeCommentReaction
+} from "../controllers/reactionController";
+import { authenticate } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  setPostReactionRoute,
+  removePostReactionRoute,
+  setCommentReactionRoute,
+  removeCommentReactionRoute
+} from "../schemas/reactionSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Add or change a reaction to a post - PUT /posts/:id/reactions
+router.put("/posts/:id/reactions", authenticate, rateLimit("write"), validate(setPostReactionRoute), asyncHandler(setPostReaction));
+
+// Remove a reaction from a post - DELETE /posts/:id/reactions
+router.delete("/posts/:id/reactions", authenticate, rateLimit("write"), validate(removePostReactionRoute), asyncHandler(removePostReaction));
+
+// Add or change a reaction to a comment - PUT /posts/:postId/comments/:id/reactions
+router.put("/posts/:postId/comments/:id/reactions", authenticate, rateLimit("write"), validate(setCommentReactionRoute), asyncHandler(setCommentReaction));
+
+// Remove a reaction from a comment - DELETE /posts/:postId/comments/:id/reactions
+router.delete("/posts/:postId/comments/:id/reactions", authenticate, rateLimit("write"), validate(removeCommentReactionRoute), asyncHandler(removeCommentReaction));
+
+export default router;
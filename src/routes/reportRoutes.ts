@@ -0,0 +1,46 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  reportPost,
+  reportComment,
+  reportUser,
+  getReports,
+  getReport,
+  resolveReport
+} from "../controllers/reportController";
+import { authenticate, requireRole } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  reportPostRoute,
+  reportCommentRoute,
+  reportUserRoute,
+  getReportsRoute,
+  getReportRoute,
+  resolveReportRoute
+} from "../schemas/reportSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Report a post - POST /posts/:id/report
+router.post("/posts/:id/report", authenticate, rateLimit("write"), validate(reportPostRoute), asyncHandler(reportPost));
+
+// Report a comment - POST /posts/:postId/comments/:id/report
+router.post("/posts/:postId/comments/:id/report", authenticate, rateLimit("write"), validate(reportCommentRoute), asyncHandler(reportComment));
+
+// Report a user - POST /users/:id/report
+router.post("/users/:id/report", authenticate, rateLimit("write"), validate(reportUserRoute), asyncHandler(reportUser));
+
+// Moderation queue of report cases - GET /reports
+router.get("/reports", authenticate, requireRole("MODERATOR", "ADMIN"), validate(getReportsRoute), asyncHandler(getReports));
+
+// Get a report case - GET /reports/:id
+router.get("/reports/:id", authenticate, requireRole("MODERATOR", "ADMIN"), validate(getReportRoute), asyncHandler(getReport));
+
+// Resolve a report case - POST /reports/:id/resolve
+router.post("/reports/:id/resolve", authenticate, rateLimit("write"), requireRole("MODERATOR", "ADMIN"), validate(resolveReportRoute), asyncHandler(resolveReport));
+
+export default router;
@@ -0,0 +1,35 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  getPostRevisions,
+  getPostRevisionDiff,
+  getCommentRevisions,
+  getCommentRevisionDiff
+} from "../controllers/revisionController";
+import { authenticate } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import {
+  getPostRevisionsRoute,
+  getPostRevisionDiffRoute,
+  getCommentRevisionsRoute,
+  getCommentRevisionDiffRoute
+} from "../schemas/revisionSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// List a post's versions - GET /posts/:id/revisions
+router.get("/posts/:id/revisions", authenticate, validate(getPostRevisionsRoute), asyncHandler(getPostRevisions));
+
+// Diff two versions of a post - GET /posts/:id/revisions/diff
+router.get("/posts/:id/revisions/diff", authenticate, validate(getPostRevisionDiffRoute), asyncHandler(getPostRevisionDiff));
+
+// List a comment's versions - GET /posts/:postId/comments/:id/revisions
+router.get("/posts/:postId/comments/:id/revisions", authenticate, validate(getCommentRevisionsRoute), asyncHandler(getCommentRevisions));
+
+// Diff two versions of a comment - GET /posts/:postId/comments/:id/revisions/diff
+router.get("/posts/:postId/comments/:id/revisions/diff", authenticate, validate(getCommentRevisionDiffRoute), asyncHandler(getCommentRevisionDiff));
+
+export default router;
@@ -0,0 +1,16 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { search } from "../controllers/searchController";
+import { optionalAuth } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { searchRoute } from "../schemas/searchSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Search posts, comments and users - GET /search
+router.get("/", optionalAuth, validate(searchRoute), asyncHandler(search));
+
+export default router;
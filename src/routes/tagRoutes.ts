@@ -0,0 +1,19 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { getTagPosts, getTrendingTags } from "../controllers/tagController";
+import { optionalAuth } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { getTrendingTagsRoute, getTagPostsRoute } from "../schemas/tagSchemas";
+
+const router: Router = express.Router();
+
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => 
+  (req: Request, res: Response, next: NextFunction) => 
+    Promise.resolve(fn(req, res, next)).catch(next);
+
+// Get trending hashtags - GET /tags/trending
+router.get("/trending", validate(getTrendingTagsRoute), asyncHandler(getTrendingTags));
+
+// Get posts with a hashtag - GET /tags/:tag/posts
+router.get("/:tag/posts", optionalAuth, validate(getTagPostsRoute), asyncHandler(getTagPosts));
+
+export default router;
@@ -3,9 +3,31 @@ import {
   createUser, 
   getUsers, 
   getUser, 
+  getUserAvatar,
+  getUserAvatarSettings,
+  updateUserAvatar,
   updateUser, 
-  deleteUser 
+  deleteUser,
+  restoreUser,
+  updateUserRole,
+  createPasswordReset
 } from "../controllers/userController";
+import { authenticate, optionalAuth, requireRole } from "../middlewares/auth";
+import { validate } from "../middlewares/validate";
+import { rateLimit } from "../middlewares/rateLimit";
+import {
+  createUserRoute,
+  getUsersRoute,
+  getUserRoute,
+  getUserAvatarRoute,
+  getUserAvatarSettingsRoute,
+  updateUserAvatarRoute,
+  updateUserRoute,
+  deleteUserRoute,
+  restoreUserRoute,
+  updateUserRoleRoute,
+  createPasswordResetRoute
+} from "../schemas/userSchemas";
 
 // Explicitly type router as Router
 const router: Router = express.Router();
@@ -16,18 +38,36 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
     Promise.resolve(fn(req, res, next)).catch(next);
 
 // Create a new user - POST /users
-router.post("/", asyncHandler(createUser));
+router.post("/", rateLimit("auth"), validate(createUserRoute), asyncHandler(createUser));
 
 // Get all users - GET /users
-router.get("/", asyncHandler(getUsers));
+router.get("/", optionalAuth, validate(getUsersRoute), asyncHandler(getUsers));
 
 // Get a single user - GET /users/:id
-router.get("/:id", asyncHandler(getUser));
+router.get("/:id", validate(getUserRoute), asyncHandler(getUser));
+
+// Get a user's avatar - GET /users/:id/avatar.svg
+router.get("/:id/avatar.svg", validate(getUserAvatarRoute), asyncHandler(getUserAvatar));
+
+// Get a user's avatar style, seed and style previews - GET /users/:id/avatar
+router.get("/:id/avatar", validate(getUserAvatarSettingsRoute), asyncHandler(getUserAvatarSettings));
+
+// Choose an avatar style or seed - PUT /users/:id/avatar
+router.put("/:id/avatar", authenticate, rateLimit("write"), validate(updateUserAvatarRoute), asyncHandler(updateUserAvatar));
 
 // Update a user - PUT /users/:id
-router.put("/:id", asyncHandler(updateUser));
+router.put("/:id", authenticate, rateLimit("write"), validate(updateUserRoute), asyncHandler(updateUser));
 
 // Delete a user (soft delete) - DELETE /users/:id
-router.delete("/:id", asyncHandler(deleteUser));
+router.delete("/:id", authenticate, rateLimit("write"), validate(deleteUserRoute), asyncHandler(deleteUser));
+
+// Restore a soft-deleted user (moderators only) - POST /users/:id/restore
+router.post("/:id/restore", authenticate, rateLimit("write"), requireRole("MODERATOR", "ADMIN"), validate(restoreUserRoute), asyncHandler(restoreUser));
+
+// Change a user's role (admins only) - PUT /users/:id/role
+router.put("/:id/role", authenticate, rateLimit("write"), requireRole("ADMIN"), validate(updateUserRoleRoute), asyncHandler(updateUserRole));
+
+// Issue a password reset token (admins only) - POST /users/:id/password-reset
+router.post("/:id/password-reset", authenticate, rateLimit("write"), requireRole("ADMIN"), validate(createPasswordResetRoute), asyncHandler(createPasswordReset));
 
 export default router;
\ No newline at end of file
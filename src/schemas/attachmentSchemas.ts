@@ -0,0 +1,111 @@
+import { z, defineRoute } from "./registry";
+import { id, IdParams, envelope, timestamp } from "./common";
+
+export const MAX_POST_ATTACHMENTS = 4;
+
+// Multipart field the images are uploaded in
+export const ATTACHMENT_FIELD = "images";
+
+export const Attachment = z
+  .object({
+    id: z.number().int(),
+    postId: z.number().int(),
+    position: z.number().int(),
+    mimeType: z.string().openapi({ example: "image/jpeg" }),
+    width: z.number().int(),
+    height: z.number().int(),
+    size: z.number().int().openapi({ description: "Bytes" }),
+    url: z.string().openapi({
+      example: "/posts/12/attachments/3",
+      description: "The image, relative to the API root",
+    }),
+    thumbnailUrl: z.string().openapi({
+      example: "/posts/12/attachments/3/thumbnail",
+      description: "A WebP thumbnail at most 320px on each side",
+    }),
+    createdAt: timestamp(),
+  })
+  .openapi("Attachment");
+
+const AttachmentParams = IdParams.extend({
+  attachmentId: id("The attachment ID"),
+});
+
+const binary = (description: string) =>
+  z.string().openapi({ type: "string", format: "binary", description });
+
+export const uploadPostAttachmentsRoute = defineRoute({
+  method: "post",
+  path: "/posts/{id}/attachments",
+  summary: "Attach images to a post",
+  description: `JPEG, PNG, GIF or WebP images sent as multipart/form-data in the \`${ATTACHMENT_FIELD}\` field. The type is read from the file contents, EXIF metadata is removed and a thumbnail is generated. A post holds at most ${MAX_POST_ATTACHMENTS} images.`,
+  tags: ["Attachments"],
+  auth: "required",
+  params: IdParams,
+  multipart: z.object({
+    [ATTACHMENT_FIELD]: z.array(binary("An image file")),
+  }),
+  responses: {
+    201: {
+      description: "The new attachments, in post order",
+      schema: envelope(z.array(Attachment)),
+    },
+    400: "Invalid input, no images sent, too many images for the post, or the post is a plain repost",
+    403: "Forbidden - not the post owner",
+    404: "Post not found or deleted",
+    413: "An image is over the size limit",
+    415: "A file is not a supported image type",
+  },
+});
+
+export const getAttachmentImageRoute = defineRoute({
+  method: "get",
+  path: "/posts/{id}/attachments/{attachmentId}",
+  summary: "Download an attached image",
+  description:
+    "Images of deleted or hidden posts are only served to moderators.",
+  tags: ["Attachments"],
+  auth: "optional",
+  params: AttachmentParams,
+  responses: {
+    200: {
+      description: "The image",
+      schema: binary("The image bytes"),
+      contentType: "image/*",
+    },
+    404: "Attachment not found",
+  },
+});
+
+export const getAttachmentThumbnailRoute = defineRoute({
+  method: "get",
+  path: "/posts/{id}/attachments/{attachmentId}/thumbnail",
+  summary: "Download an attached image's thumbnail",
+  description:
+    "Thumbnails of deleted or hidden posts are only served to moderators.",
+  tags: ["Attachments"],
+  auth: "optional",
+  params: AttachmentParams,
+  responses: {
+    200: {
+      description: "The thumbnail",
+      schema: binary("The thumbnail bytes"),
+      contentType: "image/webp",
+    },
+    404: "Attachment not found",
+  },
+});
+
+export const deletePostAttachmentRoute = defineRoute({
+  method: "delete",
+  path: "/posts/{id}/attachments/{attachmentId}",
+  summary: "Remove an image from a post",
+  tags: ["Attachments"],
+  auth: "required",
+  params: AttachmentParams,
+  responses: {
+    204: { description: "Attachment removed" },
+    403: "Forbidden - not the post owner",
+    404: "Post or attachment not found",
+  },
+});
@@ -0,0 +1,87 @@
+import { z, defineRoute } from "./registry";
+import { envelope } from "./common";
+import { password } from "./userSchemas";
+
+const AuthTokens = z
+  .object({
+    accessToken: z.string(),
+    refreshToken: z.string(),
+  })
+  .openapi("AuthTokens");
+
+const RefreshTokenInput = z.object({
+  refreshToken: z
+    .string({ error: "refreshToken is required" })
+    .min(1, { error: "refreshToken is required" }),
+});
+
+export const loginRoute = defineRoute({
+  method: "post",
+  path: "/auth/login",
+  summary: "Log in with email and password",
+  tags: ["Auth"],
+  body: z.object({
+    email: z
+      .string({ error: "Email is required" })
+      .min(1, { error: "Email is required" }),
+    password: z
+      .string({ error: "Password is required" })
+      .min(1, { error: "Password is required" }),
+  }),
+  responses: {
+    200: {
+      description: "Logged in successfully",
+      schema: envelope(AuthTokens),
+    },
+    401: "Invalid email or password",
+    403: "Account suspended",
+  },
+});
+
+export const refreshRoute = defineRoute({
+  method: "post",
+  path: "/auth/refresh",
+  summary: "Exchange a refresh token for a new token pair",
+  description:
+    "The presented refresh token is revoked and replaced (rotation).",
+  tags: ["Auth"],
+  body: RefreshTokenInput,
+  responses: {
+    200: {
+      description: "Tokens refreshed successfully",
+      schema: envelope(AuthTokens),
+    },
+    401: "Invalid or expired refresh token",
+    403: "Account suspended",
+  },
+});
+
+export const logoutRoute = defineRoute({
+  method: "post",
+  path: "/auth/logout",
+  summary: "Revoke a refresh token",
+  tags: ["Auth"],
+  body: RefreshTokenInput,
+  responses: {
+    204: { description: "Logged out successfully" },
+  },
+});
+
+export const resetPasswordRoute = defineRoute({
+  method: "post",
+  path: "/auth/password-reset",
+  summary: "Set a new password with a reset token",
+  description:
+    "Redeems a token issued by an admin (`POST /users/{id}/password-reset`) or `npm run password-reset`. Each token works once, and every existing session is signed out.",
+  tags: ["Auth"],
+  body: z.object({
+    token: z
+      .string({ error: "token is required" })
+      .min(1, { error: "token is required" }),
+    password,
+  }),
+  responses: {
+    204: { description: "Password set successfully" },
+    401: "Invalid, used or expired reset token",
+  },
+});
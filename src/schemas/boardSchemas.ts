@@ -0,0 +1,303 @@
+import { BoardRole, BoardVisibility, NoteColor } from "@prisma/client";
+import { z, defineRoute } from "./registry";
+import {
+  id,
+  DeletedFilterQuery,
+  PageQuery,
+  envelope,
+  pageEnvelope,
+  timestamp,
+} from "./common";
+import { Post, NoteLayoutInput } from "./postSchemas";
+
+const MAX_BOARD_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// Notes one layout request can change
+const MAX_LAYOUT_CHANGES = 200;
+
+export const Board = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    description: z.string().nullable(),
+    visibility: z.enum(BoardVisibility).openapi({
+      description:
+        "Anyone can read a PUBLIC board; a PRIVATE one only its members",
+    }),
+    memberCount: z.number().int(),
+    role: z.enum(BoardRole).nullable().openapi({
+      description: "The caller's role on the board, if they are a member",
+    }),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+  })
+  .openapi("Board");
+
+export const BoardMember = z
+  .object({
+    userId: z.number().int(),
+    username: z.string(),
+    avatarUrl: z.string(),
+    role: z.enum(BoardRole).openapi({
+      description:
+        "Owners manage the board and its members, members post to it and viewers only read it",
+    }),
+    createdAt: timestamp(),
+  })
+  .openapi("BoardMember");
+
+export const NoteLayout = z
+  .object({
+    id: z.number().int().openapi({ description: "The post ID" }),
+    boardId: z.number().int(),
+    color: z.enum(NoteColor),
+    x: z.number().int(),
+    y: z.number().int(),
+    width: z.number().int(),
+    height: z.number().int(),
+    rotation: z.number(),
+    zIndex: z.number().int(),
+    layoutVersion: z.number().int(),
+  })
+  .openapi("NoteLayout");
+
+const name = z
+  .string({ error: "Name is required" })
+  .trim()
+  .min(1, { error: "Name is required" })
+  .max(MAX_BOARD_NAME_LENGTH, {
+    error: `Name must be at most ${MAX_BOARD_NAME_LENGTH} characters`,
+  });
+
+const description = z
+  .string()
+  .trim()
+  .max(MAX_DESCRIPTION_LENGTH, {
+    error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+  });
+
+const BoardParams = z.object({ id: id("The board ID") });
+
+const MemberParams = BoardParams.extend({ userId: id("The member's user ID") });
+
+export const getBoardsRoute = defineRoute({
+  method: "get",
+  path: "/boards",
+  summary: "List the boards you can see",
+  description:
+    "Public boards and the private boards the caller belongs to; moderators see every board.",
+  tags: ["Boards"],
+  auth: "optional",
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of boards, oldest first",
+      schema: pageEnvelope(Board),
+    },
+  },
+});
+
+export const createBoardRoute = defineRoute({
+  method: "post",
+  path: "/boards",
+  summary: "Create a board",
+  description: "The caller becomes the board's owner.",
+  tags: ["Boards"],
+  auth: "required",
+  body: z
+    .object({
+      name,
+      description: description.optional(),
+      visibility: z.enum(BoardVisibility).default(BoardVisibility.PUBLIC),
+    })
+    .openapi("BoardInput"),
+  responses: {
+    201: {
+      description: "Board created successfully",
+      schema: envelope(Board),
+    },
+  },
+});
+
+export const getBoardRoute = defineRoute({
+  method: "get",
+  path: "/boards/{id}",
+  summary: "Retrieve a board",
+  tags: ["Boards"],
+  auth: "optional",
+  params: BoardParams,
+  responses: {
+    200: { description: "Board details", schema: envelope(Board) },
+    404: "Board not found or not visible to the caller",
+  },
+});
+
+export const updateBoardRoute = defineRoute({
+  method: "put",
+  path: "/boards/{id}",
+  summary: "Update a board",
+  description:
+    "Making a public board private hides its posts from non-members, including where they were shared on other boards.",
+  tags: ["Boards"],
+  auth: "required",
+  params: BoardParams,
+  body: z
+    .object({
+      name: name.optional(),
+      description: description.nullable().optional().openapi({
+        description: "Pass null to clear the description",
+      }),
+      visibility: z.enum(BoardVisibility).optional(),
+    })
+    .openapi("BoardUpdate"),
+  responses: {
+    200: {
+      description: "Board updated successfully",
+      schema: envelope(Board),
+    },
+    403: "Forbidden - not a board owner",
+    404: "Board not found or not visible to the caller",
+  },
+});
+
+export const getBoardPostsRoute = defineRoute({
+  method: "get",
+  path: "/boards/{id}/posts",
+  summary: "Retrieve the posts on a board",
+  description:
+    "The same filtering as GET /posts, for a single board the caller can see.",
+  tags: ["Boards"],
+  auth: "optional",
+  params: BoardParams,
+  query: DeletedFilterQuery.extend(PageQuery.shape),
+  responses: {
+    200: {
+      description: "A page of posts, ordered by creation date (descending)",
+      schema: pageEnvelope(Post),
+    },
+    403: "Deleted posts are only visible to moderators",
+    404: "Board not found or not visible to the caller",
+  },
+});
+
+export const getBoardMembersRoute = defineRoute({
+  method: "get",
+  path: "/boards/{id}/members",
+  summary: "List a board's members",
+  tags: ["Boards"],
+  auth: "optional",
+  params: BoardParams,
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of members, in the order they joined",
+      schema: pageEnvelope(BoardMember),
+    },
+    404: "Board not found or not visible to the caller",
+  },
+});
+
+export const joinBoardRoute = defineRoute({
+  method: "post",
+  path: "/boards/{id}/members",
+  summary: "Join a public board",
+  description:
+    "Adds the caller as a member. Private boards can only be joined by being added by an owner.",
+  tags: ["Boards"],
+  auth: "required",
+  params: BoardParams,
+  responses: {
+    201: { description: "Joined the board", schema: envelope(BoardMember) },
+    403: "Forbidden - the board is private",
+    404: "Board not found or not visible to the caller",
+    409: "You are already a member of this board",
+  },
+});
+
+export const setBoardMemberRoute = defineRoute({
+  method: "put",
+  path: "/boards/{id}/members/{userId}",
+  summary: "Add a member or change their role",
+  description:
+    "Owners add users to the board or change a member's role. A board always keeps at least one owner.",
+  tags: ["Boards"],
+  auth: "required",
+  params: MemberParams,
+  body: z
+    .object({ role: z.enum(BoardRole, { error: "Role is required" }) })
+    .openapi("BoardMemberInput"),
+  responses: {
+    200: {
+      description: "The member's new role",
+      schema: envelope(BoardMember),
+    },
+    201: { description: "Member added", schema: envelope(BoardMember) },
+    403: "Forbidden - not a board owner",
+    404: "Board or user not found, or the user is deleted",
+    409: "The board's last owner cannot be demoted",
+  },
+});
+
+export const removeBoardMemberRoute = defineRoute({
+  method: "delete",
+  path: "/boards/{id}/members/{userId}",
+  summary: "Remove a member or leave a board",
+  description:
+    "Owners can remove anyone; any member can remove themselves. Their posts stay on the board.",
+  tags: ["Boards"],
+  auth: "required",
+  params: MemberParams,
+  responses: {
+    204: { description: "Member removed" },
+    403: "Forbidden - not a board owner",
+    404: "Board not found, or the user is not a member",
+    409: "The board's last owner cannot leave",
+  },
+});
+
+export const updateBoardLayoutRoute = defineRoute({
+  method: "put",
+  path: "/boards/{id}/layout",
+  summary: "Move, resize or restyle notes on a board",
+  description: `Saves the layout of up to ${MAX_LAYOUT_CHANGES} notes at once, all or nothing. Each change sends the \`layoutVersion\` the client last saw for that note. If someone else has changed the note since, nothing is saved and the 409 response lists the current layout of every conflicting note in \`conflicts\`, for the client to merge and retry. Every saved note's \`layoutVersion\` goes up by one. Needs the caller to be a board owner or member.`,
+  tags: ["Boards"],
+  auth: "required",
+  params: BoardParams,
+  body: z
+    .object({
+      notes: z
+        .array(
+          NoteLayoutInput.extend({
+            postId: id("The note to change"),
+            version: z
+              .number({ error: "must be a whole number" })
+              .int({ error: "must be a whole number" })
+              .min(0, { error: "must be a whole number" })
+              .openapi({
+                description: "The note's layoutVersion the change is based on",
+              }),
+          }),
+          { error: "List the notes to change" }
+        )
+        .min(1, { error: "List the notes to change" })
+        .max(MAX_LAYOUT_CHANGES, {
+          error: `At most ${MAX_LAYOUT_CHANGES} notes can change at once`,
+        }),
+    })
+    .refine(
+      ({ notes }) =>
+        new Set(notes.map((note) => note.postId)).size === notes.length,
+      { error: "Each note can only be listed once", path: ["notes"] }
+    )
+    .openapi("BoardLayoutInput"),
+  responses: {
+    200: {
+      description: "The saved layouts, in request order",
+      schema: envelope(z.array(NoteLayout)),
+    },
+    403: "Forbidden - not a board owner or member",
+    404: "Board not found, or a note is not on the board",
+    409: "A note changed since the given version; nothing was saved and `conflicts` lists the current layouts",
+  },
+});
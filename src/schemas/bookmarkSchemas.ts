@@ -0,0 +1,158 @@
+import { z, defineRoute } from "./registry";
+import { id, PageQuery, envelope, pageEnvelope, timestamp } from "./common";
+import { Post } from "./postSchemas";
+
+const MAX_COLLECTION_NAME_LENGTH = 100;
+
+export const BookmarkCollection = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    postCount: z.number().int().openapi({
+      description: "Bookmarks in the collection, including unavailable posts",
+    }),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+  })
+  .openapi("BookmarkCollection");
+
+export const Bookmark = z
+  .object({
+    id: z.number().int(),
+    collectionId: z.number().int(),
+    postId: z.number().int(),
+    createdAt: timestamp(),
+    available: z.boolean().openapi({
+      description:
+        "False once the post has been deleted or hidden, or when it is on a private board the caller cannot see",
+    }),
+    unavailableReason: z.enum(["deleted", "hidden", "private"]).nullable(),
+    post: Post.nullable().openapi({
+      description: "The post while it is available",
+    }),
+  })
+  .openapi("Bookmark");
+
+const CollectionInput = z
+  .object({
+    name: z
+      .string({ error: "Name is required" })
+      .trim()
+      .min(1, { error: "Name is required" })
+      .max(MAX_COLLECTION_NAME_LENGTH, {
+        error: `Name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters`,
+      }),
+  })
+  .openapi("BookmarkCollectionInput");
+
+const CollectionParams = z.object({ id: id("The collection ID") });
+
+export const getCollectionsRoute = defineRoute({
+  method: "get",
+  path: "/collections",
+  summary: "List your bookmark collections",
+  tags: ["Bookmarks"],
+  auth: "required",
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of collections, oldest first",
+      schema: pageEnvelope(BookmarkCollection),
+    },
+  },
+});
+
+export const createCollectionRoute = defineRoute({
+  method: "post",
+  path: "/collections",
+  summary: "Create a bookmark collection",
+  tags: ["Bookmarks"],
+  auth: "required",
+  body: CollectionInput,
+  responses: {
+    201: {
+      description: "Collection created successfully",
+      schema: envelope(BookmarkCollection),
+    },
+    409: "You already have a collection with this name",
+  },
+});
+
+export const renameCollectionRoute = defineRoute({
+  method: "put",
+  path: "/collections/{id}",
+  summary: "Rename a bookmark collection",
+  tags: ["Bookmarks"],
+  auth: "required",
+  params: CollectionParams,
+  body: CollectionInput,
+  responses: {
+    200: {
+      description: "Collection renamed successfully",
+      schema: envelope(BookmarkCollection),
+    },
+    404: "Collection not found",
+    409: "You already have a collection with this name",
+  },
+});
+
+export const deleteCollectionRoute = defineRoute({
+  method: "delete",
+  path: "/collections/{id}",
+  summary: "Delete a bookmark collection",
+  description: "Removes the collection and its bookmarks; the posts stay.",
+  tags: ["Bookmarks"],
+  auth: "required",
+  params: CollectionParams,
+  responses: {
+    204: { description: "Collection deleted" },
+    404: "Collection not found",
+  },
+});
+
+export const getCollectionPostsRoute = defineRoute({
+  method: "get",
+  path: "/collections/{id}/posts",
+  summary: "List the posts in a bookmark collection",
+  description:
+    "Posts deleted or hidden since they were bookmarked, or on boards the caller can no longer see, are listed as unavailable, without their content, until they are restored or the bookmark is removed.",
+  tags: ["Bookmarks"],
+  auth: "required",
+  params: CollectionParams,
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of bookmarks, most recently saved first",
+      schema: pageEnvelope(Bookmark),
+    },
+    404: "Collection not found",
+  },
+});
+
+export const addBookmarkRoute = defineRoute({
+  method: "post",
+  path: "/collections/{id}/posts",
+  summary: "Bookmark a post into a collection",
+  tags: ["Bookmarks"],
+  auth: "required",
+  params: CollectionParams,
+  body: z.object({ postId: id("The post to bookmark") }),
+  responses: {
+    201: { description: "Post bookmarked", schema: envelope(Bookmark) },
+    404: "Collection or post not found",
+    409: "The post is already in this collection",
+  },
+});
+
+export const removeBookmarkRoute = defineRoute({
+  method: "delete",
+  path: "/collections/{id}/posts/{postId}",
+  summary: "Remove a post from a collection",
+  tags: ["Bookmarks"],
+  auth: "required",
+  params: CollectionParams.extend({ postId: id("The post ID") }),
+  responses: {
+    204: { description: "Bookmark removed" },
+    404: "Collection not found or the post is not in it",
+  },
+});
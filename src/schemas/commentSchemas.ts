@@ -0,0 +1,262 @@
+import { z, defineRoute } from "./registry";
+import {
+  id,
+  PostIdParams,
+  CommentParams,
+  DeletedFilterQuery,
+  PageQuery,
+  ModerationReason,
+  RequiredModerationReason,
+  envelope,
+  pageEnvelope,
+  timestamp,
+  CONTENT_REJECTED,
+} from "./common";
+import { ReactionSummary } from "./reactionSchemas";
+import { Entities, StreamQuery, StreamHeaders } from "./postSchemas";
+
+// The stored comment, as returned by moderation and deletion endpoints
+export const CommentRecord = z
+  .object({
+    id: z.number().int(),
+    content: z.string(),
+    userId: z.number().int(),
+    postId: z.number().int(),
+    parentId: z.number().int().nullable().openapi({
+      description: "The comment this one replies to",
+    }),
+    rootId: z.number().int().nullable().openapi({
+      description: "The top-level comment of this thread",
+    }),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+    deletedAt: timestamp().nullable(),
+    hiddenAt: timestamp().nullable(),
+    deletionBatchId: z.string().nullable().openapi({
+      description: "Shared by everything removed in the same deletion",
+    }),
+    editCount: z.number().int(),
+    editedAt: timestamp().nullable(),
+  })
+  .openapi("CommentRecord");
+
+export const Comment = CommentRecord.extend({
+  edited: z.boolean(),
+  entities: Entities,
+  reactions: ReactionSummary.optional().openapi({
+    description: "Omitted from create and update responses",
+  }),
+}).openapi("Comment");
+
+export const CommentNode = Comment.extend({
+  userId: z.number().int().nullable().openapi({
+    description: "Null on placeholders",
+  }),
+  depth: z.number().int().openapi({ description: "0 for top-level comments" }),
+  placeholder: z.boolean().openapi({
+    description:
+      "True when the comment was deleted or hidden and is kept only to hold its replies",
+  }),
+  get replies() {
+    return z.array(CommentNode).optional().openapi({
+      description: "Present only when format=tree",
+    });
+  },
+}).openapi("CommentNode");
+
+export const createCommentRoute = defineRoute({
+  method: "post",
+  path: "/posts/{postId}/comments",
+  summary: "Create a comment under a post",
+  tags: ["Comments"],
+  auth: "required",
+  params: PostIdParams,
+  body: z.object({
+    content: z
+      .string({ error: "Content is required" })
+      .min(1, { error: "Content is required" }),
+    parentId: id(
+      "ID of the comment being replied to, under the same post"
+    ).nullish(),
+  }),
+  responses: {
+    201: {
+      description: "Comment created successfully",
+      schema: envelope(Comment),
+    },
+    400: CONTENT_REJECTED,
+    404: "Post or parent comment not found",
+  },
+});
+
+export const getCommentsRoute = defineRoute({
+  method: "get",
+  path: "/posts/{postId}/comments",
+  summary: "Retrieve the comment threads under a post",
+  description: `Pagination applies to top-level comments; each page carries the full
+reply threads beneath them. A deleted or hidden comment that still has
+visible replies is kept as a "[deleted]" / "[hidden]" placeholder so
+the thread stays intact.`,
+  tags: ["Comments"],
+  auth: "optional",
+  params: PostIdParams,
+  query: DeletedFilterQuery.extend({
+    format: z
+      .enum(["flat", "tree"], { error: "format must be flat or tree" })
+      .default("flat")
+      .openapi({
+        description:
+          "flat: depth-first list where each comment has a depth; tree: nested replies",
+      }),
+    ...PageQuery.shape,
+  }),
+  responses: {
+    200: {
+      description:
+        "A page of threads, ordered by creation date (ascending). Hidden comments are only returned to moderators.",
+      schema: pageEnvelope(CommentNode),
+    },
+    403: "Deleted comments are only visible to moderators",
+    404: "Post not found",
+  },
+});
+
+export const streamCommentsRoute = defineRoute({
+  method: "get",
+  path: "/posts/{postId}/comments/stream",
+  summary: "Stream live comment updates for a post",
+  description: `Server-Sent Events stream of \`comment.created\`, \`comment.updated\`, \`comment.deleted\`, \`comment.hidden\` and \`comment.unhidden\` events for the post's thread, plus \`post.deleted\` when the post itself goes away.
+Reconnecting clients send \`Last-Event-ID\` to receive the events they missed; if those are no longer available a \`reset\` event is sent and the client should refetch the comments.`,
+  tags: ["Comments"],
+  auth: "optional",
+  params: PostIdParams,
+  query: StreamQuery,
+  headers: StreamHeaders,
+  responses: {
+    200: {
+      description: "An open event stream",
+      schema: z.string(),
+      contentType: "text/event-stream",
+    },
+    404: "Post not found",
+  },
+});
+
+export const getCommentRoute = defineRoute({
+  method: "get",
+  path: "/posts/{postId}/comments/{id}",
+  summary: "Retrieve a single comment",
+  tags: ["Comments"],
+  auth: "optional",
+  params: CommentParams,
+  responses: {
+    200: { description: "Comment details", schema: envelope(Comment) },
+    404: "Post or comment not found, or the comment is deleted",
+  },
+});
+
+export const updateCommentRoute = defineRoute({
+  method: "put",
+  path: "/posts/{postId}/comments/{id}",
+  summary: "Update a comment",
+  tags: ["Comments"],
+  auth: "required",
+  params: CommentParams,
+  body: z.object({
+    content: z.string().optional().openapi({
+      description: "The new content; omit or leave empty to keep it",
+    }),
+  }),
+  responses: {
+    200: {
+      description: "Comment updated successfully",
+      schema: envelope(Comment),
+    },
+    400: CONTENT_REJECTED,
+    403: "Forbidden - not the comment owner",
+    404: "Comment not found or deleted",
+  },
+});
+
+export const deleteCommentRoute = defineRoute({
+  method: "delete",
+  path: "/posts/{postId}/comments/{id}",
+  summary: "Soft-delete a comment",
+  description:
+    "Authors can delete their own comments. Moderators can delete any comment, but must give a reason when it is not their own.",
+  tags: ["Comments"],
+  auth: "required",
+  params: CommentParams,
+  body: ModerationReason,
+  responses: {
+    200: {
+      description: "Comment soft-deleted successfully",
+      schema: envelope(CommentRecord),
+    },
+    400: "A reason is required when moderating another user's comment",
+    403: "Forbidden - not the comment owner or a moderator",
+    404: "Comment not found or already deleted",
+  },
+});
+
+export const restoreCommentRoute = defineRoute({
+  method: "post",
+  path: "/posts/{postId}/comments/{id}/restore",
+  summary: "Restore a soft-deleted comment",
+  description:
+    "Authors can restore comments they deleted themselves. Moderators can restore any comment, but must give a reason when it is not their own. Comments removed along with their post or author come back when that is restored instead.",
+  tags: ["Comments"],
+  auth: "required",
+  params: CommentParams,
+  body: ModerationReason,
+  responses: {
+    200: {
+      description: "Comment restored successfully",
+      schema: envelope(CommentRecord),
+    },
+    400: "A reason is required when moderating another user's comment",
+    403: "Forbidden - not the comment owner or a moderator, or the comment was deleted by a moderator",
+    404: "Deleted comment not found",
+    409: "The comment's post or author is deleted and must be restored first",
+  },
+});
+
+export const hideCommentRoute = defineRoute({
+  method: "post",
+  path: "/posts/{postId}/comments/{id}/hide",
+  summary: "Hide a comment (moderators only)",
+  description:
+    "Hidden comments are excluded from listings for everyone except moderators.",
+  tags: ["Comments"],
+  auth: "required",
+  params: CommentParams,
+  body: RequiredModerationReason,
+  responses: {
+    200: {
+      description: "Comment hidden successfully",
+      schema: envelope(CommentRecord),
+    },
+    403: "Insufficient role",
+    404: "Comment not found or deleted",
+    409: "Comment is already hidden",
+  },
+});
+
+export const unhideCommentRoute = defineRoute({
+  method: "post",
+  path: "/posts/{postId}/comments/{id}/unhide",
+  summary: "Unhide a comment (moderators only)",
+  tags: ["Comments"],
+  auth: "required",
+  params: CommentParams,
+  body: RequiredModerationReason,
+  responses: {
+    200: {
+      description: "Comment unhidden successfully",
+      schema: envelope(CommentRecord),
+    },
+    403: "Insufficient role",
+    404: "Comment not found or deleted",
+    409: "Comment is not hidden",
+  },
+});
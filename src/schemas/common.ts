@@ -0,0 +1,117 @@
+import { z } from "./registry";
+import { decodeCursor, DEFAULT_LIMIT, MAX_LIMIT } from "../utils/pagination";
+
+// Largest value a PostgreSQL INTEGER column (and so a Prisma Int id) can hold
+const MAX_ID = 2147483647;
+
+// A numeric path or query parameter naming a row
+export const id = (description: string) =>
+  z.coerce
+    .number({ error: "must be a positive integer" })
+    .int({ error: "must be a positive integer" })
+    .min(1, { error: "must be a positive integer" })
+    .max(MAX_ID, { error: "must be a positive integer" })
+    .openapi({ description });
+
+export const IdParams = z.object({ id: id("The ID") });
+
+export const PostIdParams = z.object({ postId: id("The post ID") });
+
+export const CommentParams = z.object({
+  postId: id("The post ID"),
+  id: id("The comment ID"),
+});
+
+// `?flag=true` query parameters; anything but "true" or "false" is rejected
+export const flag = (description: string) =>
+  z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true")
+    .openapi({ description });
+
+export const DeletedFilterQuery = z.object({
+  includeDeleted: flag(
+    "Include both active and soft-deleted rows (moderators only)"
+  ),
+  onlyDeleted: flag("Return only soft-deleted rows (moderators only)"),
+});
+
+/**
+ * `limit` and `cursor` for cursor-paginated lists, coerced into the
+ * PageParams `paginate` expects. Spread `.shape` into a route's query.
+ */
+export const PageQuery = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_LIMIT)
+    .default(DEFAULT_LIMIT)
+    .openapi({ description: "Maximum number of items to return" }),
+  cursor: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) {
+        return null;
+      }
+      const cursor = decodeCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+    .openapi({
+      type: "string",
+      description:
+        "Opaque cursor taken from a previous response's pagination.nextCursor or pagination.prevCursor",
+    }),
+});
+
+export const ModerationReason = z
+  .object({
+    reason: z.string().trim().min(1).optional().openapi({
+      description: "Why the moderator acted; recorded in the moderation log",
+    }),
+  })
+  .openapi("ModerationReason");
+
+export const RequiredModerationReason = z.object({
+  reason: z.string().trim().min(1, { error: "Reason is required" }).openapi({
+    description: "Why the moderator acted; recorded in the moderation log",
+  }),
+});
+
+// 400 response of routes whose content goes through the content policy
+export const CONTENT_REJECTED =
+  "Invalid input, or content rejected by the content policy; `violations` lists the broken rules";
+
+export const PageInfo = z
+  .object({
+    limit: z.number().int(),
+    nextCursor: z.string().nullable().openapi({
+      description:
+        "Pass as `cursor` to fetch the following page; null on the last page",
+    }),
+    prevCursor: z.string().nullable().openapi({
+      description:
+        "Pass as `cursor` to fetch the preceding page; null on the first page",
+    }),
+  })
+  .openapi("PageInfo");
+
+// `{ success, data }` envelope around a response payload
+export const envelope = <T extends z.ZodType>(data: T) =>
+  z.object({ success: z.literal(true), data });
+
+// `{ success, data, pagination }` envelope around one page of a list
+export const pageEnvelope = <T extends z.ZodType>(item: T) =>
+  z.object({
+    success: z.literal(true),
+    data: z.array(item),
+    pagination: PageInfo,
+  });
+
+export const timestamp = () => z.iso.datetime();
@@ -0,0 +1,81 @@
+import { z, defineRoute } from "./registry";
+import { id, PageQuery, envelope, pageEnvelope, timestamp } from "./common";
+
+const FollowedUser = z
+  .object({
+    id: z.number().int(),
+    username: z.string(),
+    avatarUrl: z.string(),
+    avatarTag: z.string(),
+    followedAt: timestamp(),
+  })
+  .openapi("FollowedUser");
+
+const Follow = z
+  .object({
+    id: z.number().int(),
+    followerId: z.number().int(),
+    followingId: z.number().int(),
+    createdAt: timestamp(),
+  })
+  .openapi("Follow");
+
+export const followUserRoute = defineRoute({
+  method: "post",
+  path: "/users/{id}/follow",
+  summary: "Follow a user",
+  tags: ["Follows"],
+  auth: "required",
+  params: z.object({ id: id("The ID of the user to follow") }),
+  responses: {
+    201: { description: "Now following the user", schema: envelope(Follow) },
+    400: "You cannot follow yourself",
+    404: "User not found or deleted",
+    409: "Already following this user",
+  },
+});
+
+export const unfollowUserRoute = defineRoute({
+  method: "delete",
+  path: "/users/{id}/follow",
+  summary: "Unfollow a user",
+  tags: ["Follows"],
+  auth: "required",
+  params: z.object({ id: id("The ID of the user to unfollow") }),
+  responses: {
+    204: { description: "No longer following the user" },
+    404: "You are not following this user",
+  },
+});
+
+export const getFollowersRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}/followers",
+  summary: "List the users following a user",
+  tags: ["Follows"],
+  params: z.object({ id: id("The user ID") }),
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of followers, most recent first",
+      schema: pageEnvelope(FollowedUser),
+    },
+    404: "User not found or deleted",
+  },
+});
+
+export const getFollowingRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}/following",
+  summary: "List the users a user follows",
+  tags: ["Follows"],
+  params: z.object({ id: id("The user ID") }),
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of followed users, most recently followed first",
+      schema: pageEnvelope(FollowedUser),
+    },
+    404: "User not found or deleted",
+  },
+});
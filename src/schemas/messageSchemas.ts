@@ -0,0 +1,245 @@
+import { z, defineRoute } from "./registry";
+import { id, PageQuery, envelope, pageEnvelope, timestamp } from "./common";
+
+// Group size, counting the user who starts the conversation
+export const MAX_CONVERSATION_MEMBERS = 10;
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_TITLE_LENGTH = 100;
+
+export const Message = z
+  .object({
+    id: z.number().int(),
+    conversationId: z.number().int(),
+    senderId: z.number().int(),
+    content: z.string(),
+    editCount: z.number().int(),
+    editedAt: timestamp().nullable(),
+    edited: z.boolean(),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+    deletedAt: timestamp().nullable(),
+    deletionBatchId: z.string().nullable(),
+  })
+  .openapi("Message");
+
+const ConversationMember = z
+  .object({
+    userId: z.number().int(),
+    username: z.string(),
+    avatarUrl: z.string(),
+    lastReadMessageId: z.number().int().nullable().openapi({
+      description:
+        "Read receipt: the member has seen every message up to this one",
+    }),
+    lastReadAt: timestamp().nullable(),
+    joinedAt: timestamp(),
+  })
+  .openapi("ConversationMember");
+
+export const Conversation = z
+  .object({
+    id: z.number().int(),
+    title: z.string().nullable(),
+    isGroup: z.boolean(),
+    members: z.array(ConversationMember),
+    lastMessage: Message.nullable().openapi({
+      description: "The most recent message that has not been deleted",
+    }),
+    unreadCount: z.number().int().openapi({
+      description:
+        "Messages from other members after the caller's read receipt",
+    }),
+    lastMessageAt: timestamp(),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+  })
+  .openapi("Conversation");
+
+const content = z
+  .string({ error: "Content is required" })
+  .min(1, { error: "Content is required" })
+  .max(MAX_MESSAGE_LENGTH, {
+    error: `Content must be at most ${MAX_MESSAGE_LENGTH} characters`,
+  });
+
+const ConversationParams = z.object({ id: id("The conversation ID") });
+
+const MessageParams = ConversationParams.extend({
+  messageId: id("The message ID"),
+});
+
+export const getConversationsRoute = defineRoute({
+  method: "get",
+  path: "/conversations",
+  summary: "List your conversations",
+  tags: ["Messages"],
+  auth: "required",
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of conversations, most recently active first",
+      schema: pageEnvelope(Conversation),
+    },
+  },
+});
+
+export const getUnreadMessageCountRoute = defineRoute({
+  method: "get",
+  path: "/conversations/unread-count",
+  summary: "Count your unread messages",
+  tags: ["Messages"],
+  auth: "required",
+  responses: {
+    200: {
+      description: "Unread messages across all conversations",
+      schema: envelope(z.object({ unread: z.number().int() })),
+    },
+  },
+});
+
+export const createConversationRoute = defineRoute({
+  method: "post",
+  path: "/conversations",
+  summary: "Start a conversation",
+  description: `With one other user and no title this opens the one-to-one conversation between the two, returning the existing one if there is one. Otherwise a group of at most ${MAX_CONVERSATION_MEMBERS} members, including the caller, is created.`,
+  tags: ["Messages"],
+  auth: "required",
+  body: z
+    .object({
+      userIds: z
+        .array(id("A user to add"), { error: "Add at least one other user" })
+        .min(1, { error: "Add at least one other user" })
+        .max(MAX_CONVERSATION_MEMBERS - 1, {
+          error: `A conversation has at most ${MAX_CONVERSATION_MEMBERS} members`,
+        }),
+      title: z
+        .string()
+        .trim()
+        .min(1, { error: "Title cannot be empty" })
+        .max(MAX_TITLE_LENGTH, {
+          error: `Title must be at most ${MAX_TITLE_LENGTH} characters`,
+        })
+        .optional()
+        .openapi({ description: "Makes the conversation a group" }),
+    })
+    .openapi("ConversationInput"),
+  responses: {
+    200: {
+      description: "The existing one-to-one conversation",
+      schema: envelope(Conversation),
+    },
+    201: {
+      description: "Conversation created successfully",
+      schema: envelope(Conversation),
+    },
+    400: "Invalid input, or the only user added is the caller",
+    404: "A user was not found or is deleted",
+  },
+});
+
+export const getConversationRoute = defineRoute({
+  method: "get",
+  path: "/conversations/{id}",
+  summary: "Retrieve a conversation",
+  tags: ["Messages"],
+  auth: "required",
+  params: ConversationParams,
+  responses: {
+    200: {
+      description: "Conversation details",
+      schema: envelope(Conversation),
+    },
+    404: "Conversation not found",
+  },
+});
+
+export const getMessagesRoute = defineRoute({
+  method: "get",
+  path: "/conversations/{id}/messages",
+  summary: "List the messages in a conversation",
+  description: "Deleted messages are left out.",
+  tags: ["Messages"],
+  auth: "required",
+  params: ConversationParams,
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of messages, newest first",
+      schema: pageEnvelope(Message),
+    },
+    404: "Conversation not found",
+  },
+});
+
+export const sendMessageRoute = defineRoute({
+  method: "post",
+  path: "/conversations/{id}/messages",
+  summary: "Send a message",
+  description:
+    "Sending a message also marks the conversation read for the sender.",
+  tags: ["Messages"],
+  auth: "required",
+  params: ConversationParams,
+  body: z.object({ content }).openapi("MessageInput"),
+  responses: {
+    201: { description: "Message sent", schema: envelope(Message) },
+    404: "Conversation not found",
+  },
+});
+
+export const updateMessageRoute = defineRoute({
+  method: "put",
+  path: "/conversations/{id}/messages/{messageId}",
+  summary: "Edit a message",
+  tags: ["Messages"],
+  auth: "required",
+  params: MessageParams,
+  body: z.object({ content }),
+  responses: {
+    200: {
+      description: "Message updated successfully",
+      schema: envelope(Message),
+    },
+    403: "Forbidden - not the sender",
+    404: "Conversation or message not found, or the message is deleted",
+  },
+});
+
+export const deleteMessageRoute = defineRoute({
+  method: "delete",
+  path: "/conversations/{id}/messages/{messageId}",
+  summary: "Soft-delete a message",
+  tags: ["Messages"],
+  auth: "required",
+  params: MessageParams,
+  responses: {
+    200: {
+      description: "Message soft-deleted successfully",
+      schema: envelope(Message),
+    },
+    403: "Forbidden - not the sender",
+    404: "Conversation or message not found, or the message is already deleted",
+  },
+});
+
+export const markConversationReadRoute = defineRoute({
+  method: "post",
+  path: "/conversations/{id}/read",
+  summary: "Mark a conversation as read",
+  description:
+    "Moves the caller's read receipt forward to the given message, or to the latest one. A receipt never moves backwards.",
+  tags: ["Messages"],
+  auth: "required",
+  params: ConversationParams,
+  body: z.object({
+    messageId: id("The last message read; defaults to the latest").optional(),
+  }),
+  responses: {
+    200: {
+      description: "The caller's membership with its read receipt",
+      schema: envelope(ConversationMember),
+    },
+    404: "Conversation or message not found",
+  },
+});
@@ -0,0 +1,117 @@
+import { NotificationType } from "@prisma/client";
+import { z, defineRoute } from "./registry";
+import {
+  id,
+  flag,
+  PageQuery,
+  envelope,
+  pageEnvelope,
+  timestamp,
+} from "./common";
+
+const InboxParams = z.object({
+  id: id("The user ID (must be the authenticated user)"),
+});
+
+export const Notification = z
+  .object({
+    id: z.number().int(),
+    type: z.enum(NotificationType),
+    recipientId: z.number().int(),
+    postId: z.number().int().nullable(),
+    commentId: z.number().int().nullable(),
+    actors: z
+      .array(
+        z.object({
+          id: z.number().int(),
+          username: z.string(),
+          avatarUrl: z.string(),
+        })
+      )
+      .openapi({
+        description: "The most recent actors in the group, newest first",
+      }),
+    actorCount: z.number().int(),
+    message: z.string().openapi({
+      example: "alice and 2 others commented on your post",
+    }),
+    latestAt: timestamp(),
+    readAt: timestamp().nullable(),
+    createdAt: timestamp(),
+  })
+  .openapi("Notification");
+
+export const getNotificationsRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}/notifications",
+  summary: "List a user's notifications",
+  description:
+    'Related events are grouped, so each item may represent several actors (e.g. "alice and 2 others commented on your post"). Most recently active groups come first.',
+  tags: ["Notifications"],
+  auth: "required",
+  params: InboxParams,
+  query: z.object({
+    unreadOnly: flag("Return only unread notifications"),
+    ...PageQuery.shape,
+  }),
+  responses: {
+    200: {
+      description: "A page of notification groups",
+      schema: pageEnvelope(Notification),
+    },
+    403: "Forbidden - not your inbox",
+  },
+});
+
+export const getUnreadCountRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}/notifications/unread-count",
+  summary: "Count a user's unread notifications",
+  tags: ["Notifications"],
+  auth: "required",
+  params: InboxParams,
+  responses: {
+    200: {
+      description: "Number of unread notification groups",
+      schema: envelope(z.object({ unread: z.number().int() })),
+    },
+    403: "Forbidden - not your inbox",
+  },
+});
+
+export const markNotificationReadRoute = defineRoute({
+  method: "post",
+  path: "/users/{id}/notifications/{notificationId}/read",
+  summary: "Mark a notification as read",
+  tags: ["Notifications"],
+  auth: "required",
+  params: InboxParams.extend({
+    notificationId: id("The notification ID"),
+  }),
+  responses: {
+    200: {
+      description: "Notification marked as read",
+      schema: envelope(
+        Notification.omit({ actors: true, actorCount: true, message: true })
+      ),
+    },
+    403: "Forbidden - not your inbox",
+    404: "Notification not found",
+  },
+});
+
+export const markAllNotificationsReadRoute = defineRoute({
+  method: "post",
+  path: "/users/{id}/notifications/read-all",
+  summary: "Mark all of a user's notifications as read",
+  tags: ["Notifications"],
+  auth: "required",
+  params: InboxParams,
+  responses: {
+    200: {
+      description: "Number of notifications marked as read",
+      schema: envelope(z.object({ updated: z.number().int() })),
+    },
+    403: "Forbidden - not your inbox",
+  },
+});
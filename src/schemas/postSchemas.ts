@@ -0,0 +1,388 @@
+import { ShareType, BoardVisibility, NoteColor } from "@prisma/client";
+import { z, defineRoute } from "./registry";
+import {
+  id,
+  DeletedFilterQuery,
+  PageQuery,
+  ModerationReason,
+  RequiredModerationReason,
+  envelope,
+  pageEnvelope,
+  timestamp,
+  CONTENT_REJECTED,
+} from "./common";
+import { ReactionSummary } from "./reactionSchemas";
+import { Attachment } from "./attachmentSchemas";
+
+export const Entities = z
+  .object({
+    hashtags: z.array(
+      z.object({
+        tag: z.string(),
+        offset: z.number().int(),
+        length: z.number().int(),
+      })
+    ),
+    mentions: z.array(
+      z.object({
+        userId: z.number().int(),
+        username: z.string(),
+        offset: z.number().int(),
+        length: z.number().int(),
+      })
+    ),
+  })
+  .openapi("Entities", {
+    description:
+      'Hashtags and mentions found in content. Offsets and lengths are UTF-16 code units and include the leading "#" or "@".',
+  });
+
+// Bounds of the board canvas and of a note on it, in canvas pixels
+const MAX_COORDINATE = 100000;
+const MIN_NOTE_SIZE = 50;
+const MAX_NOTE_SIZE = 2000;
+const MAX_Z_INDEX = 1000000;
+
+const wholeNumber = (min: number, max: number) => {
+  const error = `must be a whole number from ${min} to ${max}`;
+  return z.number({ error }).int({ error }).min(min, { error }).max(max, {
+    error,
+  });
+};
+
+// Where a note sits on its board's canvas and how it looks
+export const NoteLayoutInput = z
+  .object({
+    color: z.enum(NoteColor).optional(),
+    x: wholeNumber(-MAX_COORDINATE, MAX_COORDINATE).optional(),
+    y: wholeNumber(-MAX_COORDINATE, MAX_COORDINATE).optional(),
+    width: wholeNumber(MIN_NOTE_SIZE, MAX_NOTE_SIZE).optional(),
+    height: wholeNumber(MIN_NOTE_SIZE, MAX_NOTE_SIZE).optional(),
+    rotation: z
+      .number({ error: "must be a number from -180 to 180" })
+      .min(-180, { error: "must be a number from -180 to 180" })
+      .max(180, { error: "must be a number from -180 to 180" })
+      .optional()
+      .openapi({ description: "Degrees, clockwise" }),
+    zIndex: wholeNumber(-MAX_Z_INDEX, MAX_Z_INDEX).optional().openapi({
+      description: "Stacking order; higher notes are drawn on top",
+    }),
+  })
+  .openapi("NoteLayoutInput");
+
+// The stored post, as returned by moderation and deletion endpoints
+export const PostRecord = z
+  .object({
+    id: z.number().int(),
+    content: z.string(),
+    userId: z.number().int(),
+    boardId: z.number().int(),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+    deletedAt: timestamp().nullable(),
+    hiddenAt: timestamp().nullable(),
+    deletionBatchId: z.string().nullable().openapi({
+      description: "Shared by everything removed in the same deletion",
+    }),
+    editCount: z.number().int(),
+    editedAt: timestamp().nullable(),
+    sharedPostId: z.number().int().nullable().openapi({
+      description: "The post this one reposts or quotes",
+    }),
+    shareType: z.enum(ShareType).nullable().openapi({
+      description:
+        "REPOST for a plain repost, which has empty content; QUOTE when the post adds its own",
+    }),
+    color: z.enum(NoteColor),
+    x: z.number().int(),
+    y: z.number().int(),
+    width: z.number().int(),
+    height: z.number().int(),
+    rotation: z.number().openapi({ description: "Degrees, clockwise" }),
+    zIndex: z.number().int().openapi({
+      description: "Stacking order; higher notes are drawn on top",
+    }),
+    layoutVersion: z.number().int().openapi({
+      description:
+        "Goes up by one with every layout change; send it back with PUT /boards/{id}/layout",
+    }),
+  })
+  .openapi("PostRecord");
+
+const PresentedPost = PostRecord.extend({
+  board: z.object({
+    id: z.number().int(),
+    name: z.string(),
+    visibility: z.enum(BoardVisibility),
+  }),
+  edited: z.boolean(),
+  attachments: z.array(Attachment).openapi({
+    description: "Attached images in post order",
+  }),
+  repostCount: z.number().int(),
+  quoteCount: z.number().int(),
+  reactions: ReactionSummary,
+  entities: Entities,
+});
+
+export const SharedPost = PresentedPost.extend({
+  available: z.literal(true),
+}).openapi("SharedPost");
+
+export const PostTombstone = z
+  .object({
+    id: z.number().int(),
+    available: z.literal(false),
+    unavailableReason: z.enum(["deleted", "hidden", "private"]),
+  })
+  .openapi("PostTombstone", {
+    description:
+      "Stands in for a shared post that was deleted or hidden, or that is on a different private board",
+  });
+
+export const Post = PresentedPost.extend({
+  sharedPost: z
+    .discriminatedUnion("available", [SharedPost, PostTombstone])
+    .nullable()
+    .openapi({
+      description:
+        "The reposted or quoted post, without its own shared post expanded",
+    }),
+}).openapi("Post");
+
+// Query parameters of the SSE endpoints; the header is documented only
+export const StreamQuery = z.object({
+  lastEventId: z.string().optional().openapi({
+    description:
+      "Alternative to the Last-Event-ID header for clients that cannot set it",
+  }),
+});
+
+export const StreamHeaders = z.object({
+  "Last-Event-ID": z.string().optional().openapi({
+    description: "ID of the last event the client received",
+  }),
+});
+
+const PostParams = z.object({ id: id("The post ID") });
+
+export const createPostRoute = defineRoute({
+  method: "post",
+  path: "/posts",
+  summary: "Create a new post",
+  tags: ["Posts"],
+  auth: "required",
+  description:
+    "The post goes on the given board, which needs the caller to be its owner or a member, as a note on top of the others unless `layout` says otherwise. With `sharedPostId` and no content the post is a repost; with content as well it quotes the shared post. Sharing a repost shares the post it reposted; a post on a private board can only be shared on that board.",
+  body: z
+    .object({
+      boardId: id("The board to post on"),
+      content: z.string().optional(),
+      sharedPostId: id("The post to repost or quote").optional(),
+      layout: NoteLayoutInput.optional(),
+    })
+    .refine((body) => !!body.content || body.sharedPostId !== undefined, {
+      error: "Content is required",
+      path: ["content"],
+    }),
+  responses: {
+    201: {
+      description: "Post created successfully",
+      schema: envelope(Post),
+    },
+    400: CONTENT_REJECTED,
+    403: "Forbidden - not a member of the board, or sharing a private post elsewhere",
+    404: "Board not found, or shared post not found, deleted or hidden",
+    409: "You have already reposted this post",
+  },
+});
+
+export const getPostsRoute = defineRoute({
+  method: "get",
+  path: "/posts",
+  summary: "Retrieve all posts",
+  tags: ["Posts"],
+  auth: "optional",
+  query: DeletedFilterQuery.extend(PageQuery.shape),
+  responses: {
+    200: {
+      description:
+        "A page of posts from every board the caller can see, ordered by creation date (descending). Hidden posts are only returned to moderators. Use GET /boards/{id}/posts to browse a single board.",
+      schema: pageEnvelope(Post),
+    },
+    403: "Deleted posts are only visible to moderators",
+  },
+});
+
+export const streamPostsRoute = defineRoute({
+  method: "get",
+  path: "/posts/stream",
+  summary: "Stream live post timeline updates",
+  description: `Server-Sent Events stream of \`post.created\`, \`post.updated\`, \`post.layout\`, \`post.deleted\`, \`post.hidden\` and \`post.unhidden\` events. Each event's data is the post as returned by GET /posts/{id} (or just \`{ id }\` for removals, and the note's new layout for \`post.layout\`). Posts on private boards are not streamed.
+Reconnecting clients send \`Last-Event-ID\` to receive the events they missed; if those are no longer available a \`reset\` event is sent and the client should refetch GET /posts.`,
+  tags: ["Posts"],
+  query: StreamQuery,
+  headers: StreamHeaders,
+  responses: {
+    200: {
+      description: "An open event stream",
+      schema: z.string(),
+      contentType: "text/event-stream",
+    },
+  },
+});
+
+export const getFeedRoute = defineRoute({
+  method: "get",
+  path: "/feed",
+  summary: "Retrieve the home feed",
+  description:
+    "Posts from users the caller follows, newest first, with the same soft-delete and hidden filtering as GET /posts.",
+  tags: ["Posts"],
+  auth: "required",
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of posts, ordered by creation date (descending)",
+      schema: pageEnvelope(Post),
+    },
+  },
+});
+
+export const getPostRoute = defineRoute({
+  method: "get",
+  path: "/posts/{id}",
+  summary: "Retrieve a single post",
+  tags: ["Posts"],
+  auth: "optional",
+  params: PostParams,
+  responses: {
+    200: { description: "Post details", schema: envelope(Post) },
+    404: "Post not found, deleted or on a board the caller cannot see",
+  },
+});
+
+export const getPostQuotesRoute = defineRoute({
+  method: "get",
+  path: "/posts/{id}/quotes",
+  summary: "List the posts quoting a post",
+  description:
+    "Deleted quotes are left out, and hidden ones are only returned to moderators.",
+  tags: ["Posts"],
+  auth: "optional",
+  params: PostParams,
+  query: PageQuery,
+  responses: {
+    200: {
+      description: "A page of quote posts, newest first",
+      schema: pageEnvelope(Post),
+    },
+    404: "Post not found or deleted",
+  },
+});
+
+export const updatePostRoute = defineRoute({
+  method: "put",
+  path: "/posts/{id}",
+  summary: "Update a post",
+  tags: ["Posts"],
+  auth: "required",
+  params: PostParams,
+  body: z.object({
+    content: z.string().optional().openapi({
+      description: "The new content; omit or leave empty to keep it",
+    }),
+  }),
+  responses: {
+    200: {
+      description: "Post updated successfully",
+      schema: envelope(Post),
+    },
+    400: "Invalid input, a plain repost (which has no content to edit), or content rejected by the content policy; `violations` lists the broken rules",
+    403: "Forbidden - not the post owner",
+    404: "Post not found or deleted",
+  },
+});
+
+export const deletePostRoute = defineRoute({
+  method: "delete",
+  path: "/posts/{id}",
+  summary: "Soft-delete a post",
+  description:
+    "Authors can delete their own posts. Moderators can delete any post, but must give a reason when it is not their own. The post's comments are deleted with it and come back when it is restored.",
+  tags: ["Posts"],
+  auth: "required",
+  params: PostParams,
+  body: ModerationReason,
+  responses: {
+    200: {
+      description: "Post soft-deleted successfully",
+      schema: envelope(PostRecord),
+    },
+    400: "A reason is required when moderating another user's post",
+    403: "Forbidden - not the post owner or a moderator",
+    404: "Post not found or already deleted",
+  },
+});
+
+export const restorePostRoute = defineRoute({
+  method: "post",
+  path: "/posts/{id}/restore",
+  summary: "Restore a soft-deleted post",
+  description:
+    "Brings back the post and exactly the comments its deletion removed; comments deleted on their own beforehand stay deleted. Authors can restore posts they deleted themselves. Moderators can restore any post, but must give a reason when it is not their own.",
+  tags: ["Posts"],
+  auth: "required",
+  params: PostParams,
+  body: ModerationReason,
+  responses: {
+    200: {
+      description: "Post restored successfully",
+      schema: envelope(PostRecord),
+    },
+    400: "A reason is required when moderating another user's post",
+    403: "Forbidden - not the post owner or a moderator, or the post was deleted by a moderator",
+    404: "Deleted post not found",
+    409: "The post's author is deleted and must be restored first",
+  },
+});
+
+export const hidePostRoute = defineRoute({
+  method: "post",
+  path: "/posts/{id}/hide",
+  summary: "Hide a post (moderators only)",
+  description:
+    "Hidden posts are excluded from listings for everyone except moderators.",
+  tags: ["Posts"],
+  auth: "required",
+  params: PostParams,
+  body: RequiredModerationReason,
+  responses: {
+    200: {
+      description: "Post hidden successfully",
+      schema: envelope(PostRecord),
+    },
+    403: "Insufficient role",
+    404: "Post not found or deleted",
+    409: "Post is already hidden",
+  },
+});
+
+export const unhidePostRoute = defineRoute({
+  method: "post",
+  path: "/posts/{id}/unhide",
+  summary: "Unhide a post (moderators only)",
+  tags: ["Posts"],
+  auth: "required",
+  params: PostParams,
+  body: RequiredModerationReason,
+  responses: {
+    200: {
+      description: "Post unhidden successfully",
+      schema: envelope(PostRecord),
+    },
+    403: "Insufficient role",
+    404: "Post not found or deleted",
+    409: "Post is not hidden",
+  },
+});
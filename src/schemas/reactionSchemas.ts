@@ -0,0 +1,96 @@
+import { ReactionType } from "@prisma/client";
+import { z, defineRoute } from "./registry";
+import { IdParams, CommentParams, envelope } from "./common";
+
+const REACTION_TYPES = Object.values(ReactionType);
+
+const reactionType = z.enum(ReactionType, {
+  error: `Reaction type must be one of ${REACTION_TYPES.join(", ")}`,
+});
+
+export const ReactionSummary = z
+  .object({
+    counts: z.partialRecord(reactionType, z.number().int()).openapi({
+      description:
+        "Number of reactions per type; types with no reactions are omitted",
+    }),
+    total: z.number().int(),
+    viewerReaction: reactionType.nullable().openapi({
+      description: "The authenticated caller's reaction, if any",
+    }),
+  })
+  .openapi("ReactionSummary");
+
+const ReactionInput = z
+  .object({ type: reactionType })
+  .openapi("ReactionInput");
+
+export const setPostReactionRoute = defineRoute({
+  method: "put",
+  path: "/posts/{id}/reactions",
+  summary: "Add or change your reaction to a post",
+  tags: ["Reactions"],
+  auth: "required",
+  params: IdParams,
+  body: ReactionInput,
+  responses: {
+    200: {
+      description:
+        "Reaction saved; returns the post's updated reaction summary",
+      schema: envelope(ReactionSummary),
+    },
+    404: "Post not found or deleted",
+  },
+});
+
+export const removePostReactionRoute = defineRoute({
+  method: "delete",
+  path: "/posts/{id}/reactions",
+  summary: "Remove your reaction from a post",
+  tags: ["Reactions"],
+  auth: "required",
+  params: IdParams,
+  responses: {
+    200: {
+      description:
+        "Reaction removed; returns the post's updated reaction summary",
+      schema: envelope(ReactionSummary),
+    },
+    404: "Post not found, or you have not reacted to it",
+  },
+});
+
+export const setCommentReactionRoute = defineRoute({
+  method: "put",
+  path: "/posts/{postId}/comments/{id}/reactions",
+  summary: "Add or change your reaction to a comment",
+  tags: ["Reactions"],
+  auth: "required",
+  params: CommentParams,
+  body: ReactionInput,
+  responses: {
+    200: {
+      description:
+        "Reaction saved; returns the comment's updated reaction summary",
+      schema: envelope(ReactionSummary),
+    },
+    404: "Comment not found or deleted, or its post is hidden",
+  },
+});
+
+export const removeCommentReactionRoute = defineRoute({
+  method: "delete",
+  path: "/posts/{postId}/comments/{id}/reactions",
+  summary: "Remove your reaction from a comment",
+  tags: ["Reactions"],
+  auth: "required",
+  params: CommentParams,
+  responses: {
+    200: {
+      description:
+        "Reaction removed; returns the comment's updated reaction summary",
+      schema: envelope(ReactionSummary),
+    },
+    404: "Comment not found, or you have not reacted to it",
+  },
+});
@@ -0,0 +1,184 @@
+import { Request } from "express";
+import { z } from "zod";
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  ResponseConfig,
+} from "@asteasolutions/zod-to-openapi";
+
+// Adds `.openapi()` to zod schemas; must run before any schema is built
+extendZodWithOpenApi(z);
+
+export { z };
+
+/**
+ * Collects every schema and route definition. `swagger.ts` generates the
+ * OpenAPI document from it, so the docs cannot drift from what the
+ * validation middleware enforces.
+ */
+export const registry = new OpenAPIRegistry();
+
+registry.registerComponent("securitySchemes", "bearerAuth", {
+  type: "http",
+  scheme: "bearer",
+  bearerFormat: "JWT",
+});
+
+/**
+ * A documented response. A plain string describes an error response, whose
+ * body is always a Problem document.
+ */
+type ResponseSpec =
+  | string
+  | { description: string; schema?: z.ZodType; contentType?: string };
+
+export interface RouteSpec {
+  method: "get" | "post" | "put" | "delete";
+  // OpenAPI-style path, e.g. /posts/{id}
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  // Whether the route requires or merely accepts a bearer token
+  auth?: "required" | "optional";
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  // Documented only; multipart bodies are parsed by the upload middleware
+  multipart?: z.ZodObject;
+  // Documented only; headers are not validated
+  headers?: z.ZodObject;
+  responses: Record<number, ResponseSpec>;
+}
+
+type Output<S> = S extends z.ZodType ? z.output<S> : Record<string, never>;
+
+// What `validate` leaves on the request for a route, after coercion
+export interface RouteInput<R extends RouteSpec> {
+  params: Output<R["params"]>;
+  query: Output<R["query"]>;
+  body: Output<R["body"]>;
+}
+
+export type Route<R extends RouteSpec> = R & {
+  // The validated input of a request that passed `validate(route)`
+  input(req: Request): RouteInput<R>;
+};
+
+// Body of every error response; see middlewares/errorHandler.ts
+export const Problem = z
+  .object({
+    type: z.string().openapi({ example: "about:blank" }),
+    title: z.string().openapi({ description: "The HTTP status text" }),
+    status: z.number().int(),
+    detail: z
+      .string()
+      .openapi({ description: "What went wrong with this request" }),
+    instance: z.string().openapi({ description: "The request path" }),
+    requestId: z.string().openapi({
+      description:
+        "Also sent in the X-Request-ID response header; quote it when reporting problems",
+    }),
+    success: z.literal(false),
+    errors: z
+      .array(
+        z.object({
+          location: z.enum(["params", "query", "body"]),
+          path: z.string(),
+          message: z.string(),
+        })
+      )
+      .optional()
+      .openapi({ description: "Every invalid field, for validation errors" }),
+    violations: z
+      .array(z.object({ rule: z.string(), message: z.string() }))
+      .optional()
+      .openapi({
+        description: "Every content policy rule the submitted content broke",
+      }),
+    retryAfter: z.number().int().optional().openapi({
+      description:
+        "Seconds until the rate limit resets, for 429 responses; also sent as Retry-After",
+    }),
+  })
+  .openapi("Problem", {
+    description:
+      "RFC 7807 problem details, returned with Content-Type application/problem+json for every error",
+  });
+
+const toResponseConfig = (spec: ResponseSpec): ResponseConfig => {
+  if (typeof spec === "string") {
+    return {
+      description: spec,
+      content: { "application/problem+json": { schema: Problem } },
+    };
+  }
+  return {
+    description: spec.description,
+    content: spec.schema
+      ? { [spec.contentType ?? "application/json"]: { schema: spec.schema } }
+      : undefined,
+  };
+};
+
+/**
+ * Declares a route once: the returned object is passed to `validate()` in
+ * the router and used by the controller to read its input, and the route
+ * is added to the OpenAPI document. Routes with input get a 400 response,
+ * authenticated routes a 401 and every route a 429 documented
+ * automatically.
+ */
+export const defineRoute = <R extends RouteSpec>(spec: R): Route<R> => {
+  const responses: Record<number, ResponseSpec> = { ...spec.responses };
+  if (
+    (spec.params || spec.query || spec.body || spec.multipart) &&
+    !responses[400]
+  ) {
+    responses[400] = "Invalid input; `errors` lists every failing field";
+  }
+  if (spec.auth === "required" && !responses[401]) {
+    responses[401] = "Authentication required";
+  }
+  // Every route is behind at least the global rate limit
+  if (!responses[429]) {
+    responses[429] = "Rate limit exceeded; retry after Retry-After seconds";
+  }
+
+  registry.registerPath({
+    method: spec.method,
+    path: spec.path,
+    summary: spec.summary,
+    description: spec.description,
+    tags: spec.tags,
+    security: spec.auth
+      ? [{ bearerAuth: [] }, ...(spec.auth === "optional" ? [{}] : [])]
+      : undefined,
+    request: {
+      params: spec.params,
+      query: spec.query,
+      headers: spec.headers,
+      body: spec.body
+        ? {
+            required: !spec.body.safeParse({}).success,
+            content: { "application/json": { schema: spec.body } },
+          }
+        : spec.multipart
+        ? {
+            required: true,
+            content: { "multipart/form-data": { schema: spec.multipart } },
+          }
+        : undefined,
+    },
+    responses: Object.fromEntries(
+      Object.entries(responses).map(([status, response]) => [
+        status,
+        toResponseConfig(response),
+      ])
+    ),
+  });
+
+  return {
+    ...spec,
+    input: (req: Request) => req.input as RouteInput<R>,
+  };
+};
@@ -0,0 +1,280 @@
+import {
+  ReportCategory,
+  ReportStatus,
+  ReportResolution,
+  Role,
+} from "@prisma/client";
+import { z, defineRoute } from "./registry";
+import {
+  id,
+  IdParams,
+  CommentParams,
+  PageQuery,
+  RequiredModerationReason,
+  envelope,
+  pageEnvelope,
+  timestamp,
+} from "./common";
+
+export const REPORT_TARGET_TYPES = ["post", "comment", "user"] as const;
+export const RESOLVE_ACTIONS = ["dismiss", "hide", "suspend"] as const;
+
+const MAX_DETAILS_LENGTH = 1000;
+const DEFAULT_SUSPENSION_DAYS = 7;
+const MAX_SUSPENSION_DAYS = 365;
+
+const REPORT_CATEGORIES = Object.values(ReportCategory);
+
+const category = z.enum(ReportCategory, {
+  error: `Category must be one of ${REPORT_CATEGORIES.join(", ")}`,
+});
+
+const ReportInput = z
+  .object({
+    category,
+    details: z
+      .string()
+      .trim()
+      .min(1)
+      .max(MAX_DETAILS_LENGTH)
+      .optional()
+      .openapi({ description: "Anything moderators should know" }),
+  })
+  .openapi("ReportInput");
+
+// What the reporter gets back; other reporters stay private
+export const Report = z
+  .object({
+    id: z.number().int(),
+    caseId: z.number().int(),
+    round: z.number().int(),
+    reporterId: z.number().int().nullable().openapi({
+      description: "Null when the content filter flagged the item",
+    }),
+    category,
+    details: z.string().nullable(),
+    createdAt: timestamp(),
+  })
+  .openapi("Report");
+
+const Author = z.object({
+  id: z.number().int(),
+  username: z.string(),
+  avatarUrl: z.string(),
+});
+
+const ReportedPost = z
+  .object({
+    id: z.number().int(),
+    content: z.string(),
+    user: Author,
+    createdAt: timestamp(),
+    editedAt: timestamp().nullable(),
+    hiddenAt: timestamp().nullable(),
+    deletedAt: timestamp().nullable(),
+  })
+  .openapi("ReportedPost");
+
+const ReportedComment = z
+  .object({
+    id: z.number().int(),
+    content: z.string(),
+    postId: z.number().int(),
+    parentId: z.number().int().nullable(),
+    user: Author,
+    createdAt: timestamp(),
+    editedAt: timestamp().nullable(),
+    hiddenAt: timestamp().nullable(),
+    deletedAt: timestamp().nullable(),
+  })
+  .openapi("ReportedComment");
+
+const ReportedUser = z
+  .object({
+    id: z.number().int(),
+    username: z.string(),
+    avatarUrl: z.string(),
+    role: z.enum(Role),
+    createdAt: timestamp(),
+    deletedAt: timestamp().nullable(),
+    suspendedUntil: timestamp().nullable(),
+  })
+  .openapi("ReportedUser");
+
+// The reported item together with what a moderator needs to judge it
+const ReportTarget = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("post"), post: ReportedPost }),
+    z.object({
+      type: z.literal("comment"),
+      comment: ReportedComment,
+      post: ReportedPost.openapi({
+        description: "The post the comment was left on",
+      }),
+      parent: ReportedComment.nullable().openapi({
+        description: "The comment being replied to, for replies",
+      }),
+    }),
+    z.object({ type: z.literal("user"), user: ReportedUser }),
+  ])
+  .openapi("ReportTarget");
+
+export const ReportCase = z
+  .object({
+    id: z.number().int(),
+    status: z.enum(ReportStatus),
+    round: z.number().int().openapi({
+      description:
+        "Incremented each time a resolved case is reopened by a new report",
+    }),
+    reportCount: z.number().int().openapi({
+      description: "Distinct reporters in the current round",
+    }),
+    categories: z.partialRecord(category, z.number().int()).openapi({
+      description:
+        "Reports per category in the current round; categories nobody chose are omitted",
+    }),
+    openedAt: timestamp(),
+    lastReportedAt: timestamp(),
+    autoHiddenAt: timestamp().nullable().openapi({
+      description:
+        "When the content was hidden automatically for reaching the report threshold",
+    }),
+    resolution: z.enum(ReportResolution).nullable(),
+    resolutionNote: z.string().nullable(),
+    resolvedById: z.number().int().nullable(),
+    resolvedAt: timestamp().nullable(),
+    target: ReportTarget,
+    reports: z
+      .array(
+        Report.omit({ reporterId: true }).extend({
+          reporter: Author.nullable(),
+        })
+      )
+      .openapi({ description: "Reports in the current round, newest first" }),
+  })
+  .openapi("ReportCase");
+
+export const reportPostRoute = defineRoute({
+  method: "post",
+  path: "/posts/{id}/report",
+  summary: "Report a post",
+  description:
+    "Reports on the same post are grouped into one case for moderators. Once enough people report it, the post is hidden until a moderator reviews it.",
+  tags: ["Reports"],
+  auth: "required",
+  params: IdParams,
+  body: ReportInput,
+  responses: {
+    201: { description: "Report filed", schema: envelope(Report) },
+    400: "Invalid input, or reporting your own post",
+    404: "Post not found",
+    409: "You have already reported this post",
+  },
+});
+
+export const reportCommentRoute = defineRoute({
+  method: "post",
+  path: "/posts/{postId}/comments/{id}/report",
+  summary: "Report a comment",
+  description:
+    "Reports on the same comment are grouped into one case for moderators. Once enough people report it, the comment is hidden until a moderator reviews it.",
+  tags: ["Reports"],
+  auth: "required",
+  params: CommentParams,
+  body: ReportInput,
+  responses: {
+    201: { description: "Report filed", schema: envelope(Report) },
+    400: "Invalid input, or reporting your own comment",
+    404: "Comment not found",
+    409: "You have already reported this comment",
+  },
+});
+
+export const reportUserRoute = defineRoute({
+  method: "post",
+  path: "/users/{id}/report",
+  summary: "Report a user",
+  tags: ["Reports"],
+  auth: "required",
+  params: IdParams,
+  body: ReportInput,
+  responses: {
+    201: { description: "Report filed", schema: envelope(Report) },
+    400: "Invalid input, or reporting yourself",
+    404: "User not found",
+    409: "You have already reported this user",
+  },
+});
+
+export const getReportsRoute = defineRoute({
+  method: "get",
+  path: "/reports",
+  summary: "List report cases (moderators only)",
+  description:
+    "The moderation queue: one case per reported item with the item in context, most recently reported first.",
+  tags: ["Reports"],
+  auth: "required",
+  query: z.object({
+    status: z
+      .enum(["open", "resolved"])
+      .default("open")
+      .openapi({ description: "Which cases to list" }),
+    type: z
+      .enum(REPORT_TARGET_TYPES)
+      .optional()
+      .openapi({ description: "Only cases about this kind of item" }),
+    ...PageQuery.shape,
+  }),
+  responses: {
+    200: {
+      description: "A page of report cases",
+      schema: pageEnvelope(ReportCase),
+    },
+    403: "Forbidden - moderators only",
+  },
+});
+
+export const getReportRoute = defineRoute({
+  method: "get",
+  path: "/reports/{id}",
+  summary: "Retrieve a report case (moderators only)",
+  tags: ["Reports"],
+  auth: "required",
+  params: z.object({ id: id("The report case ID") }),
+  responses: {
+    200: { description: "The report case", schema: envelope(ReportCase) },
+    403: "Forbidden - moderators only",
+    404: "Report case not found",
+  },
+});
+
+export const resolveReportRoute = defineRoute({
+  method: "post",
+  path: "/reports/{id}/resolve",
+  summary: "Resolve a report case (moderators only)",
+  description:
+    "`dismiss` closes the case and restores content that was hidden automatically. `hide` hides the reported post or comment. `suspend` suspends the reported user, or the author of the reported content, for `days` days. The reason is recorded in the moderation log.",
+  tags: ["Reports"],
+  auth: "required",
+  params: z.object({ id: id("The report case ID") }),
+  body: RequiredModerationReason.extend({
+    action: z.enum(RESOLVE_ACTIONS, {
+      error: `Action must be one of ${RESOLVE_ACTIONS.join(", ")}`,
+    }),
+    days: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SUSPENSION_DAYS)
+      .default(DEFAULT_SUSPENSION_DAYS)
+      .openapi({ description: "Suspension length, for `suspend`" }),
+  }).openapi("ResolveReportInput"),
+  responses: {
+    200: { description: "Case resolved", schema: envelope(ReportCase) },
+    400: "Invalid input, or `hide` on a case about a user",
+    403: "Forbidden - moderators only, and moderators cannot be suspended",
+    404: "Report case not found",
+    409: "Case already resolved, or the reported content was deleted",
+  },
+});
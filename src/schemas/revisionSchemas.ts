@@ -0,0 +1,121 @@
+import { z, defineRoute } from "./registry";
+import { id, CommentParams, envelope, timestamp } from "./common";
+
+export const Revision = z
+  .object({
+    version: z.number().int().openapi({
+      description: "1 for the original content, incremented by each edit",
+    }),
+    content: z.string(),
+    createdAt: timestamp().openapi({
+      description: "When this version was written",
+    }),
+    current: z.boolean(),
+  })
+  .openapi("Revision");
+
+export const RevisionDiff = z
+  .object({
+    from: Revision,
+    to: Revision,
+    changes: z.array(
+      z.object({
+        op: z.enum(["equal", "insert", "delete"]),
+        text: z.string(),
+      })
+    ),
+  })
+  .openapi("RevisionDiff");
+
+const version = (description: string) =>
+  z.coerce
+    .number({ error: "must be a positive integer" })
+    .int({ error: "must be a positive integer" })
+    .min(1, { error: "must be a positive integer" })
+    .optional()
+    .openapi({ description });
+
+const DiffQuery = z.object({
+  from: version(
+    "Older version to compare (defaults to the version before `to`)"
+  ),
+  to: version("Newer version to compare (defaults to the current version)"),
+});
+
+const PostParams = z.object({ id: id("The post ID") });
+
+export const getPostRevisionsRoute = defineRoute({
+  method: "get",
+  path: "/posts/{id}/revisions",
+  summary: "List a post's edit history (author or moderators)",
+  description:
+    "Every version of the post's content, oldest first. Version 1 is the original and the last entry is the current content.",
+  tags: ["Revisions"],
+  auth: "required",
+  params: PostParams,
+  responses: {
+    200: {
+      description: "The post's versions",
+      schema: envelope(z.array(Revision)),
+    },
+    403: "Forbidden - not the author or a moderator",
+    404: "Post not found",
+  },
+});
+
+export const getPostRevisionDiffRoute = defineRoute({
+  method: "get",
+  path: "/posts/{id}/revisions/diff",
+  summary: "Diff two versions of a post (author or moderators)",
+  tags: ["Revisions"],
+  auth: "required",
+  params: PostParams,
+  query: DiffQuery,
+  responses: {
+    200: {
+      description: "Word-level differences between the two versions",
+      schema: envelope(RevisionDiff),
+    },
+    400: "Invalid or unknown version",
+    403: "Forbidden - not the author or a moderator",
+    404: "Post not found",
+  },
+});
+
+export const getCommentRevisionsRoute = defineRoute({
+  method: "get",
+  path: "/posts/{postId}/comments/{id}/revisions",
+  summary: "List a comment's edit history (author or moderators)",
+  description:
+    "Every version of the comment's content, oldest first. Version 1 is the original and the last entry is the current content.",
+  tags: ["Revisions"],
+  auth: "required",
+  params: CommentParams,
+  responses: {
+    200: {
+      description: "The comment's versions",
+      schema: envelope(z.array(Revision)),
+    },
+    403: "Forbidden - not the author or a moderator",
+    404: "Comment not found",
+  },
+});
+
+export const getCommentRevisionDiffRoute = defineRoute({
+  method: "get",
+  path: "/posts/{postId}/comments/{id}/revisions/diff",
+  summary: "Diff two versions of a comment (author or moderators)",
+  tags: ["Revisions"],
+  auth: "required",
+  params: CommentParams,
+  query: DiffQuery,
+  responses: {
+    200: {
+      description: "Word-level differences between the two versions",
+      schema: envelope(RevisionDiff),
+    },
+    400: "Invalid or unknown version",
+    403: "Forbidden - not the author or a moderator",
+    404: "Comment not found",
+  },
+});
@@ -0,0 +1,116 @@
+import { z, defineRoute } from "./registry";
+import { id, envelope, timestamp } from "./common";
+
+const SEARCH_TYPES = ["posts", "comments", "users"] as const;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const date = (description: string) =>
+  z.coerce
+    .date({ error: "must be a valid date" })
+    .optional()
+    .openapi({ type: "string", format: "date-time", description });
+
+const rank = {
+  rank: z.number(),
+  highlight: z.string().openapi({
+    description: "HTML-escaped excerpt with matches wrapped in <mark> tags",
+  }),
+};
+
+const SearchResults = z
+  .object({
+    posts: z
+      .array(
+        z.object({
+          id: z.number().int(),
+          content: z.string(),
+          userId: z.number().int(),
+          createdAt: timestamp(),
+          ...rank,
+        })
+      )
+      .optional(),
+    comments: z
+      .array(
+        z.object({
+          id: z.number().int(),
+          content: z.string(),
+          userId: z.number().int(),
+          postId: z.number().int(),
+          createdAt: timestamp(),
+          ...rank,
+        })
+      )
+      .optional(),
+    users: z
+      .array(
+        z.object({
+          id: z.number().int(),
+          username: z.string(),
+          avatarUrl: z.string(),
+          createdAt: timestamp(),
+          ...rank,
+        })
+      )
+      .optional(),
+  })
+  .openapi("SearchResults", {
+    description: "Only the requested types are present",
+  });
+
+export const searchRoute = defineRoute({
+  method: "get",
+  path: "/search",
+  summary: "Full-text search across posts, comments and users",
+  description: `Uses PostgreSQL full-text search (websearch syntax: quoted phrases,
+\`or\`, \`-exclude\`). Results are ranked per type, and each result
+carries an HTML-escaped \`highlight\` with matches wrapped in
+\`<mark>\` tags. Deleted content is never returned; hidden content
+only to moderators.`,
+  tags: ["Search"],
+  auth: "optional",
+  query: z.object({
+    q: z
+      .string({ error: "q is required" })
+      .trim()
+      .min(1, { error: "q is required" })
+      .openapi({ description: "The search query" }),
+    type: z
+      .string()
+      .default(SEARCH_TYPES.join(","))
+      .transform((value) => value.split(",").map((type) => type.trim()))
+      .pipe(
+        z.array(
+          z.enum(SEARCH_TYPES, {
+            error: `type must be a comma-separated list of ${SEARCH_TYPES.join(", ")}`,
+          })
+        )
+      )
+      .openapi({
+        type: "string",
+        example: "posts,comments",
+        description:
+          "Comma-separated result types to search (posts, comments, users); defaults to all",
+      }),
+    authorId: id("Only posts and comments written by this user").optional(),
+    from: date("Only results created at or after this time"),
+    to: date("Only results created at or before this time"),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_LIMIT)
+      .default(DEFAULT_LIMIT)
+      .openapi({
+        description: "Maximum number of results per type",
+      }),
+  }),
+  responses: {
+    200: {
+      description: "Ranked results, grouped by type",
+      schema: envelope(SearchResults),
+    },
+  },
+});
@@ -0,0 +1,79 @@
+import { z, defineRoute } from "./registry";
+import { PageQuery, envelope, pageEnvelope } from "./common";
+import { Post } from "./postSchemas";
+
+const DEFAULT_TRENDING_HOURS = 24;
+const MAX_TRENDING_HOURS = 24 * 30;
+const DEFAULT_TRENDING_LIMIT = 10;
+const MAX_TRENDING_LIMIT = 50;
+
+export const getTrendingTagsRoute = defineRoute({
+  method: "get",
+  path: "/tags/trending",
+  summary: "Retrieve trending hashtags",
+  description:
+    "Tags ranked by how many visible posts and comments used them within the time window.",
+  tags: ["Tags"],
+  query: z.object({
+    hours: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_TRENDING_HOURS)
+      .default(DEFAULT_TRENDING_HOURS)
+      .openapi({
+        description: "Size of the look-back window in hours",
+      }),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_TRENDING_LIMIT)
+      .default(DEFAULT_TRENDING_LIMIT)
+      .openapi({
+        description: "Maximum number of tags to return",
+      }),
+  }),
+  responses: {
+    200: {
+      description: "Trending tags, most used first",
+      schema: envelope(
+        z.array(
+          z.object({
+            tag: z.string(),
+            uses: z.number().int().openapi({
+              description:
+                "Number of distinct posts and comments using the tag",
+            }),
+          })
+        )
+      ),
+    },
+  },
+});
+
+export const getTagPostsRoute = defineRoute({
+  method: "get",
+  path: "/tags/{tag}/posts",
+  summary: "Retrieve posts carrying a hashtag",
+  tags: ["Tags"],
+  auth: "optional",
+  params: z.object({
+    tag: z
+      .string()
+      .transform((tag) => tag.replace(/^#/, "").toLowerCase())
+      .openapi({
+        type: "string",
+        description:
+          'The hashtag, with or without the leading "#" (case-insensitive)',
+      }),
+  }),
+  query: PageQuery,
+  responses: {
+    200: {
+      description:
+        "A page of posts, ordered by creation date (descending). Unknown tags yield an empty page.",
+      schema: pageEnvelope(Post),
+    },
+  },
+});
@@ -0,0 +1,300 @@
+import { Role } from "@prisma/client";
+import { z, defineRoute } from "./registry";
+import { avatarStyles } from "../utils/avatar";
+import {
+  id,
+  DeletedFilterQuery,
+  PageQuery,
+  envelope,
+  pageEnvelope,
+  timestamp,
+} from "./common";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export const User = z
+  .object({
+    id: z.number().int(),
+    email: z.string(),
+    username: z.string(),
+    avatarUrl: z.string().openapi({
+      example: "/users/1/avatar.svg",
+      description: "The rendered avatar, relative to the API root",
+    }),
+    avatarTag: z.string(),
+    avatarStyle: z.string().openapi({ example: "identicon" }),
+    avatarSeed: z.string(),
+    role: z.enum(Role),
+    createdAt: timestamp(),
+    updatedAt: timestamp(),
+    deletedAt: timestamp().nullable(),
+    deletionBatchId: z.string().nullable().openapi({
+      description: "Shared by everything removed in the same deletion",
+    }),
+    suspendedUntil: timestamp().nullable().openapi({
+      description: "While in the future the user cannot sign in or act",
+    }),
+  })
+  .openapi("User");
+
+const email = z.email({ error: "Must be a valid email address" });
+const username = z
+  .string({ error: "Username is required" })
+  .min(1, { error: "Username is required" });
+export const password = z
+  .string({ error: "Password is required" })
+  .min(MIN_PASSWORD_LENGTH, {
+    error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+  });
+
+const UserParams = z.object({ id: id("The user ID") });
+
+const avatarStyle = z.enum(avatarStyles, {
+  error: `Avatar style must be one of ${avatarStyles.join(", ")}`,
+});
+const avatarSeed = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,64}$/, {
+    error:
+      "Avatar seed must be 1-64 letters, digits, hyphens or underscores",
+  })
+  .openapi({ example: "3f9a1c27b4e05d68" });
+
+export const AvatarSettings = z
+  .object({
+    style: z.string().openapi({ example: "identicon" }),
+    seed: z.string(),
+    url: z.string().openapi({ example: "/users/1/avatar.svg" }),
+    styles: z.array(
+      z.object({
+        style: avatarStyle,
+        previewUrl: z.string().openapi({
+          example: "/users/1/avatar.svg?style=rings",
+          description: "The avatar with the current seed in this style",
+        }),
+      })
+    ),
+  })
+  .openapi("AvatarSettings");
+
+export const createUserRoute = defineRoute({
+  method: "post",
+  path: "/users",
+  summary: "Create a new user",
+  tags: ["Users"],
+  body: z.object({ email, username, password }).openapi("UserInput"),
+  responses: {
+    201: { description: "User created successfully", schema: envelope(User) },
+    409: "Email or username already exists",
+  },
+});
+
+export const getUsersRoute = defineRoute({
+  method: "get",
+  path: "/users",
+  summary: "Retrieve all users",
+  description:
+    "Retrieves all users from the database, with options to include or only show soft-deleted users based on query parameters.",
+  tags: ["Users"],
+  auth: "optional",
+  query: DeletedFilterQuery.extend(PageQuery.shape),
+  responses: {
+    200: {
+      description: "A page of users, ordered by creation date (ascending)",
+      schema: pageEnvelope(User),
+    },
+    403: "Deleted users are only visible to moderators",
+  },
+});
+
+export const getUserRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}",
+  summary: "Retrieve a single user",
+  tags: ["Users"],
+  params: UserParams,
+  responses: {
+    200: { description: "User details", schema: envelope(User) },
+    404: "User not found or deleted",
+  },
+});
+
+export const getUserAvatarRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}/avatar.svg",
+  summary: "Retrieve a user's avatar",
+  description:
+    "Rendered from the user's avatar style and seed, so it only changes when they do. `style` and `seed` render a preview with those instead. Responses carry an ETag and may be cached for a minute.",
+  tags: ["Users"],
+  params: UserParams,
+  query: z.object({
+    style: avatarStyle.optional(),
+    seed: avatarSeed.optional(),
+  }),
+  responses: {
+    200: {
+      description: "The avatar",
+      schema: z.string().openapi({ description: "An SVG document" }),
+      contentType: "image/svg+xml",
+    },
+    404: "User not found or deleted",
+  },
+});
+
+export const getUserAvatarSettingsRoute = defineRoute({
+  method: "get",
+  path: "/users/{id}/avatar",
+  summary: "Retrieve a user's avatar settings",
+  description:
+    "The avatar's style and seed, and a preview of it in every available style.",
+  tags: ["Users"],
+  params: UserParams,
+  responses: {
+    200: {
+      description: "Avatar settings",
+      schema: envelope(AvatarSettings),
+    },
+    404: "User not found or deleted",
+  },
+});
+
+export const updateUserAvatarRoute = defineRoute({
+  method: "put",
+  path: "/users/{id}/avatar",
+  summary: "Choose an avatar style or seed",
+  tags: ["Users"],
+  auth: "required",
+  params: UserParams,
+  body: z
+    .object({ style: avatarStyle.optional(), seed: avatarSeed.optional() })
+    .refine((body) => body.style !== undefined || body.seed !== undefined, {
+      error: "Provide a style, a seed or both",
+    })
+    .openapi("AvatarInput"),
+  responses: {
+    200: {
+      description: "Avatar updated successfully",
+      schema: envelope(AvatarSettings),
+    },
+    403: "Forbidden - not your account",
+    404: "User not found or deleted",
+  },
+});
+
+export const updateUserRoute = defineRoute({
+  method: "put",
+  path: "/users/{id}",
+  summary: "Update a user",
+  description:
+    "Changing the email or password needs the current password. A new password signs out every session, so the refresh tokens issued before it stop working. The avatar is kept when the email changes; choose a new one at `/users/{id}/avatar`.",
+  tags: ["Users"],
+  auth: "required",
+  params: UserParams,
+  body: z
+    .object({
+      email: email.optional(),
+      username: username.optional(),
+      password: password.optional(),
+      currentPassword: z.string().optional().openapi({
+        description: "Required to change the email or password",
+      }),
+    })
+    .refine(
+      (body) =>
+        (body.email === undefined && body.password === undefined) ||
+        !!body.currentPassword,
+      {
+        error: "Current password is required to change your email or password",
+        path: ["currentPassword"],
+      }
+    )
+    .openapi("UserUpdateInput"),
+  responses: {
+    200: { description: "User updated successfully", schema: envelope(User) },
+    403: "Forbidden - not your account, or the current password is wrong",
+    404: "User not found or deleted",
+    409: "Email already in use by another user",
+  },
+});
+
+export const deleteUserRoute = defineRoute({
+  method: "delete",
+  path: "/users/{id}",
+  summary: "Soft-delete a user",
+  description:
+    "Also deletes the user's posts, the comments under them, every comment the user wrote and the direct messages they sent. Restoring the user brings back exactly that content.",
+  tags: ["Users"],
+  auth: "required",
+  params: UserParams,
+  responses: {
+    200: {
+      description: "User soft-deleted successfully",
+      schema: envelope(User),
+    },
+    403: "Forbidden - not your account",
+    404: "User not found or already deleted",
+  },
+});
+
+export const restoreUserRoute = defineRoute({
+  method: "post",
+  path: "/users/{id}/restore",
+  summary: "Restore a soft-deleted user (moderators only)",
+  description:
+    "Brings back the user and exactly the posts, comments and messages their deletion removed; content they had deleted before that stays deleted.",
+  tags: ["Users"],
+  auth: "required",
+  params: UserParams,
+  responses: {
+    200: { description: "User restored successfully", schema: envelope(User) },
+    403: "Insufficient role",
+    404: "Deleted user not found",
+  },
+});
+
+export const updateUserRoleRoute = defineRoute({
+  method: "put",
+  path: "/users/{id}/role",
+  summary: "Change a user's role (admins only)",
+  tags: ["Users"],
+  auth: "required",
+  params: UserParams,
+  body: z.object({
+    role: z.enum(Role, {
+      error: `Role must be one of ${Object.values(Role).join(", ")}`,
+    }),
+  }),
+  responses: {
+    200: { description: "Role updated successfully", schema: envelope(User) },
+    403: "Insufficient role",
+    404: "User not found or deleted",
+  },
+});
+
+export const PasswordReset = z
+  .object({
+    token: z.string().openapi({
+      description: "Shown only once; redeem it at POST /auth/password-reset",
+    }),
+    expiresAt: timestamp(),
+  })
+  .openapi("PasswordReset");
+
+export const createPasswordResetRoute = defineRoute({
+  method: "post",
+  path: "/users/{id}/password-reset",
+  summary: "Issue a one-time password reset token (admins only)",
+  description:
+    "For users who cannot sign in, including accounts created before passwords existed. Hand the token to the user out of band. Issuing a new token cancels any earlier unused one.",
+  tags: ["Users"],
+  auth: "required",
+  params: UserParams,
+  responses: {
+    201: {
+      description: "Reset token issued",
+      schema: envelope(PasswordReset),
+    },
+    403: "Insufficient role",
+    404: "User not found or deleted",
+  },
+});
@@ -0,0 +1,37 @@
+import { PrismaClient } from "@prisma/client";
+import { issuePasswordReset } from "../utils/passwordReset";
+
+const prisma = new PrismaClient();
+
+// Prints a one-time reset token for the account with the given email, for
+// when no admin can sign in to issue one: npm run password-reset -- <email>
+const main = async () => {
+  const email = process.argv[2];
+  if (!email) {
+    console.error("Usage: npm run password-reset -- <email>");
+    process.exitCode = 1;
+    return;
+  }
+  const user = await prisma.user.findUnique({
+    where: { email, deletedAt: null },
+  });
+  if (!user) {
+    console.error(`No active user with email ${email}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { token, expiresAt } = await issuePasswordReset(user.id);
+  console.log(
+    `Reset token for ${user.email} (expires ${expiresAt.toISOString()}):`
+  );
+  console.log(token);
+  console.log("Redeem it with POST /auth/password-reset { token, password }");
+};
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,9 +1,12 @@
-import swaggerJsdoc from "swagger-jsdoc";
 import swaggerUi from "swagger-ui-express";
 import { Express } from "express";
+import { OpenApiGeneratorV3 } from "@asteasolutions/zod-to-openapi";
+import { registry } from "./schemas/registry";
 
-const options: swaggerJsdoc.Options = {
-  definition: {
+// Generated from the route schemas, which register themselves when the
+// routers are imported
+const buildSpec = () =>
+  new OpenApiGeneratorV3(registry.definitions).generateDocument({
     openapi: "3.0.0",
     info: {
       title: "Post-it App API",
@@ -11,23 +14,20 @@ const options: swaggerJsdoc.Options = {
       description: "API documentation for the Post-it social media app",
     },
     servers: [
-        {
-            url: "{protocol}://{host}",
-            description: "Current server",
-            variables: {
-              protocol: { default: "https" },
-              host: { default: "post-it-app-cwv0.onrender.com/" },
-            },
-          },
-          { url: "http://localhost:3000", description: "Local development server" },
+      {
+        url: "{protocol}://{host}",
+        description: "Current server",
+        variables: {
+          protocol: { default: "https" },
+          host: { default: "post-it-app-cwv0.onrender.com/" },
+        },
+      },
+      { url: "http://localhost:3000", description: "Local development server" },
     ],
-  },
-  apis: ["./src/controllers/*.ts"], // Point to your controller files
-};
-
-const swaggerSpec = swaggerJsdoc(options);
+  });
 
 export const setupSwagger = (app: Express) => {
-    app.use("/api/v1/docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec));
-    console.log("Swagger docs available at /api/v1/docs");
-  };
\ No newline at end of file
+  const swaggerSpec = buildSpec();
+  app.use("/api/v1/docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec));
+  console.log("Swagger docs available at /api/v1/docs");
+};
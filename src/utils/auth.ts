@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+
+const PASSWORD_SALT_ROUNDS = 10;
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || "15m";
+const REFRESH_TOKEN_TTL_DAYS = parseInt(
+  process.env.REFRESH_TOKEN_TTL_DAYS || "30"
+);
+const PASSWORD_RESET_TTL_HOURS = parseInt(
+  process.env.PASSWORD_RESET_TTL_HOURS || "24"
+);
+
+export interface AccessTokenPayload {
+  sub: number;
+}
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return secret;
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  return bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+};
+
+export const verifyPassword = async (
+  password: string,
+  passwordHash: string
+): Promise<boolean> => {
+  return bcrypt.compare(password, passwordHash);
+};
+
+export const signAccessToken = (userId: number): string => {
+  return jwt.sign({ sub: String(userId) }, getJwtSecret(), {
+    expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions["expiresIn"],
+  });
+};
+
+// Returns null for any token that is malformed, expired or wrongly signed
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    const payload = jwt.verify(token, getJwtSecret());
+    if (typeof payload === "string" || !payload.sub) {
+      return null;
+    }
+    const userId = parseInt(payload.sub);
+    return isNaN(userId) ? null : { sub: userId };
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Refresh tokens are opaque; only their SHA-256 hash is stored
+export const generateRefreshToken = (): {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+} => {
+  const token = crypto.randomBytes(48).toString("base64url");
+  const expiresAt = new Date(
+    Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+  );
+  return { token, tokenHash: hashRefreshToken(token), expiresAt };
+};
+
+export const hashRefreshToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+// Password reset tokens are single-use and stored hashed like refresh tokens
+export const generatePasswordResetToken = (): {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+} => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(
+    Date.now() + PASSWORD_RESET_TTL_HOURS * 60 * 60 * 1000
+  );
+  return { token, tokenHash: hashRefreshToken(token), expiresAt };
+};
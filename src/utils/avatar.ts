@@ -1,60 +1,201 @@
-const avatarStyles = [
-  "adventurer",
-  "adventurer-neutral",
-  "avataaars",
-  "avataaars-neutral",
-  "big-ears",
-  "big-ears-neutral",
-  "big-smile",
-  "bottts",
-  "bottts-neutral",
-  "croodles",
-  "croodles-neutral",
-  "fun-emoji",
-  "icons",
+import crypto from "crypto";
+import { escapeHtml } from "./html";
+
+// Avatars are rendered in-process as SVG from a stored style and seed, so
+// the same user always gets the same picture and no third party is called.
+
+export const avatarStyles = [
   "identicon",
   "initials",
-  "lorelei",
-  "lorelei-neutral",
-  "micah",
-  "miniavs",
-  "open-peeps",
-  "personas",
-  "pixel-art",
-  "pixel-art-neutral",
+  "pixels",
+  "rings",
   "shapes",
-  "thumbs",
+] as const;
+
+export type AvatarStyle = (typeof avatarStyles)[number];
+
+// Rendered size in pixels; drawing happens in a 100x100 view box
+const AVATAR_SIZE = 200;
+
+const PALETTE = [
+  "#e76f51",
+  "#f4a261",
+  "#e9c46a",
+  "#2a9d8f",
+  "#264653",
+  "#8ab17d",
+  "#6d597a",
+  "#b56576",
+  "#457b9d",
+  "#1d3557",
+  "#ff006e",
+  "#3a86ff",
 ];
 
-export const getRandomAvatarStyle = (): string => {
+const BACKGROUNDS = ["#f1faee", "#fefae0", "#edf6f9", "#f8edeb", "#f0efeb"];
+
+export const getRandomAvatarStyle = (): AvatarStyle => {
   const randomIndex = Math.floor(Math.random() * avatarStyles.length);
   return avatarStyles[randomIndex];
 };
 
-export const generateRandomAvatar = async (email: string): Promise<string> => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  const _email = email.trim();
-  if (!emailRegex.test(_email)) {
-    throw new Error("Invalid email");
+export const generateAvatarSeed = (): string =>
+  crypto.randomBytes(8).toString("hex");
+
+export const generateRandomAvatar = (): {
+  avatarStyle: AvatarStyle;
+  avatarSeed: string;
+} => ({
+  avatarStyle: getRandomAvatarStyle(),
+  avatarSeed: generateAvatarSeed(),
+});
+
+// Where a user's avatar is served from, relative to the API root
+export const avatarUrlFor = (userId: number): string =>
+  `/users/${userId}/avatar.svg`;
+
+// Renders the user's avatar in another style, to preview before choosing it
+export const avatarPreviewUrl = (userId: number, style: AvatarStyle): string =>
+  `${avatarUrlFor(userId)}?style=${style}`;
+
+export const isAvatarStyle = (style: string): style is AvatarStyle =>
+  (avatarStyles as readonly string[]).includes(style);
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) for a seed (mulberry32,
+ * seeded from a SHA-256 of the seed so similar seeds look unrelated).
+ */
+const seededRandom = (seed: string): (() => number) => {
+  let state = crypto.createHash("sha256").update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(random: () => number, items: readonly T[]): T =>
+  items[Math.floor(random() * items.length)];
+
+const identicon = (random: () => number): string => {
+  const color = pick(random, PALETTE);
+  const cells: string[] = [];
+  // A 5x5 grid mirrored around the middle column
+  for (let row = 0; row < 5; row++) {
+    for (let col = 0; col < 3; col++) {
+      if (random() < 0.5) {
+        continue;
+      }
+      for (const x of new Set([col, 4 - col])) {
+        cells.push(
+          `<rect x="${10 + x * 16}" y="${10 + row * 16}" width="16" height="16" fill="${color}"/>`
+        );
+      }
+    }
+  }
+  return `<rect width="100" height="100" fill="${pick(random, BACKGROUNDS)}"/>${cells.join("")}`;
+};
+
+const initials = (random: () => number, name: string): string => {
+  const letters =
+    name
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+      .slice(0, 2)
+      .map((part) => [...part][0].toUpperCase())
+      .join("") || "?";
+  return (
+    `<rect width="100" height="100" fill="${pick(random, PALETTE)}"/>` +
+    `<text x="50" y="50" dy="0.35em" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="40" font-weight="600" fill="#ffffff">${escapeHtml(letters)}</text>`
+  );
+};
+
+const pixels = (random: () => number): string => {
+  const colors = [pick(random, PALETTE), pick(random, PALETTE)];
+  const cells: string[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const fill =
+        random() < 0.4 ? pick(random, BACKGROUNDS) : pick(random, colors);
+      cells.push(
+        `<rect x="${col * 12.5}" y="${row * 12.5}" width="12.5" height="12.5" fill="${fill}"/>`
+      );
+    }
   }
+  return cells.join("");
+};
 
-  const entropySource = () => Math.random().toString(36).substring(2, 7);
-  const replaceAt = `-${entropySource()}-`;
-  const replaceDot = `-${entropySource()}-`;
-  const seed = _email.replace("@", replaceAt).replace(/\./g, replaceDot);
-  const randomAvatarStyle = getRandomAvatarStyle();
+const rings = (random: () => number): string => {
+  const circles: string[] = [];
+  for (let r = 50; r > 0; r -= 10) {
+    circles.push(
+      `<circle cx="50" cy="50" r="${r}" fill="${pick(random, PALETTE)}"/>`
+    );
+  }
+  return circles.join("");
+};
 
-  if (!randomAvatarStyle || !avatarStyles.includes(randomAvatarStyle)) {
-    throw new Error("Something failed: Invalid avatar style");
+const shapes = (random: () => number): string => {
+  const parts = [
+    `<rect width="100" height="100" fill="${pick(random, BACKGROUNDS)}"/>`,
+  ];
+  for (let i = 0; i < 3; i++) {
+    const fill = pick(random, PALETTE);
+    const x = Math.round(15 + random() * 70);
+    const y = Math.round(15 + random() * 70);
+    const size = Math.round(15 + random() * 25);
+    const rotate = Math.round(random() * 360);
+    const kind = Math.floor(random() * 3);
+    if (kind === 0) {
+      parts.push(
+        `<circle cx="${x}" cy="${y}" r="${size}" fill="${fill}" opacity="0.85"/>`
+      );
+    } else if (kind === 1) {
+      parts.push(
+        `<rect x="${x - size}" y="${y - size}" width="${size * 2}" height="${size * 2}" fill="${fill}" opacity="0.85" transform="rotate(${rotate} ${x} ${y})"/>`
+      );
+    } else {
+      parts.push(
+        `<polygon points="${x},${y - size} ${x + size},${y + size} ${x - size},${y + size}" fill="${fill}" opacity="0.85" transform="rotate(${rotate} ${x} ${y})"/>`
+      );
+    }
   }
+  return parts.join("");
+};
 
-  const avatarUrl = `https://api.dicebear.com/5.x/${randomAvatarStyle}/svg?seed=${seed}&size=200&radius=50`;
-  return avatarUrl;
+/**
+ * Draws an avatar as a standalone, circular SVG document. The output
+ * depends only on the arguments; `name` is used by the initials style.
+ */
+export const renderAvatar = (
+  style: AvatarStyle,
+  seed: string,
+  name: string
+): string => {
+  const random = seededRandom(`${style}:${seed}`);
+  const body =
+    style === "identicon"
+      ? identicon(random)
+      : style === "initials"
+      ? initials(random, name)
+      : style === "pixels"
+      ? pixels(random)
+      : style === "rings"
+      ? rings(random)
+      : shapes(random);
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${AVATAR_SIZE}" height="${AVATAR_SIZE}" viewBox="0 0 100 100">` +
+    `<clipPath id="avatar"><circle cx="50" cy="50" r="50"/></clipPath>` +
+    `<g clip-path="url(#avatar)">${body}</g></svg>`
+  );
 };
 
 export const generateAvatarTag = (
   username: string,
   avatarUrl: string
 ): string => {
-  return `<img src="${avatarUrl}" alt="Avatar for ${username}" />`;
+  return `<img src="${escapeHtml(avatarUrl)}" alt="Avatar for ${escapeHtml(
+    username
+  )}" />`;
 };
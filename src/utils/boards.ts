@@ -0,0 +1,101 @@
+import {
+  PrismaClient,
+  Prisma,
+  BoardRole,
+  BoardVisibility,
+} from "@prisma/client";
+import { AuthUser, isModerator } from "../middlewares/auth";
+import { ForbiddenError, NotFoundError } from "./errors";
+
+const prisma = new PrismaClient();
+
+// Roles that may post to a board and arrange it; viewers can only read it
+const CONTRIBUTOR_ROLES: BoardRole[] = [BoardRole.OWNER, BoardRole.MEMBER];
+
+/**
+ * Boards the viewer can read: public ones and private ones they belong to.
+ * Moderators see every board so they can act on reports from private ones.
+ */
+export const visibleBoardWhere = (
+  viewer?: AuthUser
+): Prisma.BoardWhereInput => {
+  if (isModerator(viewer)) {
+    return {};
+  }
+  return {
+    OR: [
+      { visibility: BoardVisibility.PUBLIC },
+      ...(viewer ? [{ members: { some: { userId: viewer.id } } }] : []),
+    ],
+  };
+};
+
+// Restricts a post (or comment, via its post) query to readable boards
+export const visiblePostWhere = (viewer?: AuthUser) => ({
+  board: visibleBoardWhere(viewer),
+});
+
+/**
+ * The same check as `visibleBoardWhere` for raw queries, given the SQL
+ * column holding the post's board ID.
+ */
+export const visibleBoardSql = (
+  boardId: Prisma.Sql,
+  viewer?: AuthUser
+): Prisma.Sql => {
+  if (isModerator(viewer)) {
+    return Prisma.empty;
+  }
+  const member = viewer
+    ? Prisma.sql`OR EXISTS (
+        SELECT 1 FROM "BoardMember" bm
+        WHERE bm."boardId" = b."id" AND bm."userId" = ${viewer.id}
+      )`
+    : Prisma.empty;
+  return Prisma.sql`AND EXISTS (
+    SELECT 1 FROM "Board" b
+    WHERE b."id" = ${boardId}
+      AND (b."visibility" = 'PUBLIC' ${member})
+  )`;
+};
+
+// Live events go to every stream subscriber, so only public posts are sent
+export const isPublicBoard = (board: { visibility: BoardVisibility }) =>
+  board.visibility === BoardVisibility.PUBLIC;
+
+export const getBoardRole = async (
+  boardId: number,
+  userId: number
+): Promise<BoardRole | null> => {
+  const member = await prisma.boardMember.findUnique({
+    where: { boardId_userId: { boardId, userId } },
+  });
+  return member?.role ?? null;
+};
+
+// A board the viewer cannot read looks the same as a missing one
+export const findVisibleBoard = async (id: number, viewer?: AuthUser) => {
+  const board = await prisma.board.findUnique({
+    where: { id, AND: visibleBoardWhere(viewer) },
+  });
+  if (!board) {
+    throw new NotFoundError("Board not found");
+  }
+  return board;
+};
+
+/**
+ * Only owners and members change what is on a board; `action` completes
+ * the error message, e.g. "post to this board".
+ */
+export const assertBoardContributor = async (
+  boardId: number,
+  user: AuthUser,
+  action: string
+): Promise<void> => {
+  await findVisibleBoard(boardId, user);
+  const role = await getBoardRole(boardId, user.id);
+  if (!role || !CONTRIBUTOR_ROLES.includes(role)) {
+    throw new ForbiddenError(`Only board members can ${action}`);
+  }
+};
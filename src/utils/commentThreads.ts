@@ -0,0 +1,84 @@
+import { Comment } from "@prisma/client";
+
+export const DELETED_PLACEHOLDER = "[deleted]";
+export const HIDDEN_PLACEHOLDER = "[hidden]";
+
+export type CommentNode<T extends Comment = Comment> = Omit<T, "userId"> & {
+  userId: number | null;
+  depth: number;
+  placeholder: boolean;
+  replies: CommentNode<T>[];
+};
+
+export type FlatComment<T extends Comment = Comment> = Omit<
+  CommentNode<T>,
+  "replies"
+>;
+
+interface ThreadOptions<T extends Comment> {
+  // Whether a comment belongs in the result on its own merits
+  matches: (comment: Comment) => boolean;
+  // When false, kept comments that do not match are masked as placeholders
+  revealAll: boolean;
+  // Clears any extra content-derived fields the caller attached to T
+  redact?: (node: CommentNode<T>) => CommentNode<T>;
+}
+
+const toPlaceholder = <T extends Comment>(
+  node: CommentNode<T>
+): CommentNode<T> => ({
+  ...node,
+  content: node.deletedAt ? DELETED_PLACEHOLDER : HIDDEN_PLACEHOLDER,
+  userId: null,
+  placeholder: true,
+});
+
+/**
+ * Assembles thread roots and all of their replies into nested trees.
+ * A comment is kept when it matches or when any of its descendants is
+ * kept, so a deleted parent stays in place (as a placeholder) instead of
+ * orphaning its replies. Siblings keep the order they were passed in.
+ */
+export const buildThreads = <T extends Comment>(
+  roots: T[],
+  replies: T[],
+  { matches, revealAll, redact = (node) => node }: ThreadOptions<T>
+): CommentNode<T>[] => {
+  const childrenOf = new Map<number, T[]>();
+  for (const reply of replies) {
+    const siblings = childrenOf.get(reply.parentId!) ?? [];
+    siblings.push(reply);
+    childrenOf.set(reply.parentId!, siblings);
+  }
+
+  const build = (comment: T, depth: number): CommentNode<T> | null => {
+    const children = (childrenOf.get(comment.id) ?? [])
+      .map((child) => build(child, depth + 1))
+      .filter((child): child is CommentNode<T> => child !== null);
+
+    const isMatch = matches(comment);
+    if (!isMatch && children.length === 0) {
+      return null;
+    }
+    const node: CommentNode<T> = {
+      ...comment,
+      depth,
+      placeholder: false,
+      replies: children,
+    };
+    return isMatch || revealAll ? node : redact(toPlaceholder(node));
+  };
+
+  return roots
+    .map((root) => build(root, 0))
+    .filter((node): node is CommentNode<T> => node !== null);
+};
+
+// Depth-first flattening, so each reply directly follows its parent
+export const flattenThreads = <T extends Comment>(
+  nodes: CommentNode<T>[]
+): FlatComment<T>[] =>
+  nodes.flatMap(({ replies, ...comment }) => [
+    comment,
+    ...flattenThreads(replies),
+  ]);
@@ -0,0 +1,345 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { PrismaClient, ReportCategory } from "@prisma/client";
+import { BadRequestError } from "./errors";
+import { flagForReview, ReportTarget } from "./reports";
+
+const prisma = new PrismaClient();
+
+// Content policy for new and edited posts and comments. Rules run in order;
+// each passes the content or reports a violation that rejects the request,
+// masks the offending text, or flags the saved item for moderator review.
+
+export type PolicyAction = "reject" | "mask" | "flag";
+
+export interface ContentContext {
+  kind: "post" | "comment";
+  userId: number;
+  // The post or comment being edited; absent on create
+  id?: number;
+}
+
+export interface RuleViolation {
+  message: string;
+  // The content with the offending text masked, used by "mask" rules
+  masked?: string;
+}
+
+export interface ContentRule {
+  name: string;
+  action: PolicyAction;
+  // Report category used when the rule flags content
+  category: ReportCategory;
+  check(
+    content: string,
+    context: ContentContext
+  ): RuleViolation | null | Promise<RuleViolation | null>;
+}
+
+export interface ContentFlag {
+  rule: string;
+  category: ReportCategory;
+  message: string;
+}
+
+export interface PolicyResult {
+  // The content to store, after masking
+  content: string;
+  // Violations of "flag" rules; pass to `flagViolations` once saved
+  flags: ContentFlag[];
+}
+
+const DEFAULT_POLICY_FILE = "config/content-policy.json";
+
+// How often the policy file is checked for changes
+const POLICY_POLL_MS = 2000;
+
+// Letters, digits and underscores; what a "*" wildcard can stand for
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>]+/gi;
+
+const LINK_PLACEHOLDER = "[link removed]";
+
+// Most recent posts and comments of each kind compared for repetition
+const MAX_REPETITION_CANDIDATES = 100;
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const codePoints = (text: string): string[] => [...text];
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/\s+/g, " ").trim();
+
+const action = z.enum(["reject", "mask", "flag"]);
+const category = z.enum(ReportCategory).optional();
+
+const RuleConfig = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("bannedWords"),
+    name: z.string().optional(),
+    action,
+    category,
+    // "*" matches any run of letters and digits, "?" exactly one
+    words: z.array(z.string().trim().min(1)),
+  }),
+  z.object({
+    type: z.literal("links"),
+    name: z.string().optional(),
+    action,
+    category,
+    max: z.number().int().min(0),
+  }),
+  z.object({
+    type: z.literal("maxLength"),
+    name: z.string().optional(),
+    action,
+    category,
+    max: z.number().int().min(1),
+  }),
+  z.object({
+    type: z.literal("repetition"),
+    name: z.string().optional(),
+    // Masking cannot make repeated content unique
+    action: z.enum(["reject", "flag"]),
+    category,
+    windowMinutes: z.number().int().min(1).default(60),
+    // Identical posts and comments allowed within the window
+    maxRepeats: z.number().int().min(1).default(2),
+  }),
+]);
+
+type RuleConfig = z.infer<typeof RuleConfig>;
+
+const PolicyConfig = z.object({ rules: z.array(RuleConfig) });
+
+const bannedWordsRule = (
+  config: Extract<RuleConfig, { type: "bannedWords" }>
+): ContentRule => {
+  const patterns = config.words.map((word) =>
+    codePoints(word)
+      .map((char) =>
+        char === "*"
+          ? `${WORD_CHAR}*`
+          : char === "?"
+          ? WORD_CHAR
+          : escapeRegExp(char)
+      )
+      .join("")
+  );
+  const pattern = new RegExp(
+    `(?<!${WORD_CHAR})(?:${patterns.join("|")})(?!${WORD_CHAR})`,
+    "giu"
+  );
+  return {
+    name: config.name ?? "bannedWords",
+    action: config.action,
+    category: config.category ?? ReportCategory.OTHER,
+    check: (content) => {
+      if (patterns.length === 0 || !content.match(pattern)) {
+        return null;
+      }
+      return {
+        message: "Contains banned words",
+        masked: content.replace(pattern, (match) =>
+          "*".repeat(codePoints(match).length)
+        ),
+      };
+    },
+  };
+};
+
+const linksRule = (
+  config: Extract<RuleConfig, { type: "links" }>
+): ContentRule => ({
+  name: config.name ?? "links",
+  action: config.action,
+  category: config.category ?? ReportCategory.SPAM,
+  check: (content) => {
+    const links = content.match(URL_PATTERN) ?? [];
+    if (links.length <= config.max) {
+      return null;
+    }
+    let seen = 0;
+    return {
+      message: `Contains more than ${config.max} links`,
+      masked: content.replace(URL_PATTERN, (link) =>
+        ++seen > config.max ? LINK_PLACEHOLDER : link
+      ),
+    };
+  },
+});
+
+const maxLengthRule = (
+  config: Extract<RuleConfig, { type: "maxLength" }>
+): ContentRule => ({
+  name: config.name ?? "maxLength",
+  action: config.action,
+  category: config.category ?? ReportCategory.OTHER,
+  check: (content) => {
+    const chars = codePoints(content);
+    if (chars.length <= config.max) {
+      return null;
+    }
+    return {
+      message: `Longer than ${config.max} characters`,
+      masked: chars.slice(0, config.max).join(""),
+    };
+  },
+});
+
+// Compares against the author's own recent posts and comments
+const repetitionRule = (
+  config: Extract<RuleConfig, { type: "repetition" }>
+): ContentRule => ({
+  name: config.name ?? "repetition",
+  action: config.action,
+  category: config.category ?? ReportCategory.SPAM,
+  check: async (content, { kind, userId, id }) => {
+    const since = new Date(Date.now() - config.windowMinutes * 60 * 1000);
+    const where = { userId, deletedAt: null, createdAt: { gte: since } };
+    const query = {
+      select: { content: true },
+      orderBy: { createdAt: "desc" as const },
+      take: MAX_REPETITION_CANDIDATES,
+    };
+    const [posts, comments] = await Promise.all([
+      prisma.post.findMany({
+        ...query,
+        where: kind === "post" && id ? { ...where, id: { not: id } } : where,
+      }),
+      prisma.comment.findMany({
+        ...query,
+        where:
+          kind === "comment" && id ? { ...where, id: { not: id } } : where,
+      }),
+    ]);
+    const normalized = normalize(content);
+    const repeats = [...posts, ...comments].filter(
+      (previous) => normalize(previous.content) === normalized
+    ).length;
+    if (repeats < config.maxRepeats) {
+      return null;
+    }
+    return {
+      message: `Repeats content posted ${repeats} times in the last ${config.windowMinutes} minutes`,
+    };
+  },
+});
+
+const buildRule = (config: RuleConfig): ContentRule => {
+  switch (config.type) {
+    case "bannedWords":
+      return bannedWordsRule(config);
+    case "links":
+      return linksRule(config);
+    case "maxLength":
+      return maxLengthRule(config);
+    case "repetition":
+      return repetitionRule(config);
+  }
+};
+
+let rules: ContentRule[] = [];
+
+// Replaces the active rules, e.g. with custom ContentRule implementations
+export const setContentRules = (next: ContentRule[]): void => {
+  rules = next;
+};
+
+export const getContentRules = (): ContentRule[] => rules;
+
+export const contentPolicyFile = (): string =>
+  path.resolve(process.env.CONTENT_POLICY_FILE || DEFAULT_POLICY_FILE);
+
+/**
+ * Reads the rules from a policy file. A missing file means no rules; an
+ * unreadable or invalid one throws.
+ */
+export const loadContentPolicy = (file: string): ContentRule[] => {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+  const parsed = PolicyConfig.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid content policy in ${file}:\n${z.prettifyError(parsed.error)}`
+    );
+  }
+  return parsed.data.rules.map(buildRule);
+};
+
+/**
+ * Loads the policy file and reloads it whenever it changes, so rules can be
+ * edited without a restart. A broken file fails startup; a broken edit is
+ * logged and the previous rules stay in force.
+ */
+export const watchContentPolicy = (file = contentPolicyFile()): void => {
+  setContentRules(loadContentPolicy(file));
+  fs.watchFile(file, { interval: POLICY_POLL_MS }, () => {
+    try {
+      setContentRules(loadContentPolicy(file));
+      console.log(`Reloaded content policy from ${file}`);
+    } catch (error) {
+      console.error("Failed to reload content policy:", error);
+    }
+  }).unref();
+};
+
+/**
+ * Runs the content through every rule. Rejections are collected and thrown
+ * together as a 400 listing each violated rule; masks apply in rule order.
+ */
+export const applyContentPolicy = async (
+  content: string,
+  context: ContentContext
+): Promise<PolicyResult> => {
+  let current = content;
+  const rejections: { rule: string; message: string }[] = [];
+  const flags: ContentFlag[] = [];
+  for (const rule of rules) {
+    const violation = await rule.check(current, context);
+    if (!violation) {
+      continue;
+    }
+    if (rule.action === "reject") {
+      rejections.push({ rule: rule.name, message: violation.message });
+    } else if (rule.action === "mask") {
+      current = violation.masked ?? current;
+    } else {
+      flags.push({
+        rule: rule.name,
+        category: rule.category,
+        message: violation.message,
+      });
+    }
+  }
+  if (rejections.length > 0) {
+    throw new BadRequestError("Content violates the content policy", {
+      violations: rejections,
+    });
+  }
+  return { content: current, flags };
+};
+
+// Puts saved content that tripped "flag" rules in the moderation queue
+export const flagViolations = async (
+  target: ReportTarget,
+  flags: ContentFlag[]
+): Promise<void> => {
+  if (flags.length === 0) {
+    return;
+  }
+  await flagForReview(target, {
+    category: flags[0].category,
+    details: `Content filter: ${flags.map((flag) => flag.message).join("; ")}`,
+  });
+};
@@ -0,0 +1,67 @@
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many LCS cells the diff degrades to a whole-text replacement
+const MAX_CELLS = 4_000_000;
+
+// Words and the whitespace between them, so the diff keeps the original spacing
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], op: DiffOp, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+};
+
+/**
+ * Word-level diff of two texts as a list of equal/insert/delete segments.
+ * Concatenating the equal and delete segments gives `before`; the equal
+ * and insert segments give `after`.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_CELLS) {
+    if (before) pushSegment(segments, "delete", before);
+    if (after) pushSegment(segments, "insert", after);
+    return segments;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushSegment(segments, "delete", a[i++]);
+    } else {
+      pushSegment(segments, "insert", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "delete", a[i++]);
+  while (j < b.length) pushSegment(segments, "insert", b[j++]);
+  return segments;
+};
@@ -0,0 +1,209 @@
+import { Prisma } from "@prisma/client";
+
+// A hashtag must contain at least one letter, so "#1" is not a tag
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#])#([\p{L}\p{N}_]{1,100})/gu;
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_@.])@([A-Za-z0-9_]{1,50})/gu;
+const HAS_LETTER = /\p{L}/u;
+
+interface Occurrence {
+  offset: number;
+  length: number;
+}
+
+export interface ExtractedEntities {
+  hashtags: (Occurrence & { tag: string })[];
+  mentions: (Occurrence & { username: string })[];
+}
+
+export interface Entities {
+  hashtags: (Occurrence & { tag: string })[];
+  mentions: (Occurrence & { userId: number; username: string })[];
+}
+
+/**
+ * Finds #hashtags and @mentions in content. Offsets and lengths are in
+ * UTF-16 code units (JavaScript string indices) and cover the leading
+ * "#" or "@". Tags are normalised to lowercase.
+ */
+export const extractEntities = (content: string): ExtractedEntities => {
+  const hashtags = [...content.matchAll(HASHTAG_PATTERN)]
+    .filter((match) => HAS_LETTER.test(match[1]))
+    .map((match) => ({
+      tag: match[1].toLowerCase(),
+      offset: match.index!,
+      length: match[0].length,
+    }));
+  const mentions = [...content.matchAll(MENTION_PATTERN)].map((match) => ({
+    username: match[1],
+    offset: match.index!,
+    length: match[0].length,
+  }));
+  return { hashtags, mentions };
+};
+
+// Returns a tag name -> id map, creating any tags that do not exist yet
+const ensureTags = async (
+  tx: Prisma.TransactionClient,
+  names: string[]
+): Promise<Map<string, number>> => {
+  const unique = [...new Set(names)];
+  if (unique.length === 0) {
+    return new Map();
+  }
+  await tx.tag.createMany({
+    data: unique.map((name) => ({ name })),
+    skipDuplicates: true,
+  });
+  const tags = await tx.tag.findMany({ where: { name: { in: unique } } });
+  return new Map(tags.map((tag) => [tag.name, tag.id]));
+};
+
+// Mentions of unknown or deleted users are plain text and are dropped
+const resolveMentions = async (
+  tx: Prisma.TransactionClient,
+  mentions: ExtractedEntities["mentions"]
+) => {
+  if (mentions.length === 0) {
+    return [];
+  }
+  const users = await tx.user.findMany({
+    where: {
+      username: { in: [...new Set(mentions.map((m) => m.username))] },
+      deletedAt: null,
+    },
+    select: { id: true, username: true },
+  });
+  const idByUsername = new Map(users.map((user) => [user.username, user.id]));
+  return mentions
+    .filter((mention) => idByUsername.has(mention.username))
+    .map(({ username, offset, length }) => ({
+      userId: idByUsername.get(username)!,
+      offset,
+      length,
+    }));
+};
+
+const newlyMentioned = (
+  previous: { userId: number }[],
+  current: { userId: number }[]
+): number[] => {
+  const before = new Set(previous.map((mention) => mention.userId));
+  return [...new Set(current.map((mention) => mention.userId))].filter(
+    (userId) => !before.has(userId)
+  );
+};
+
+/**
+ * Replaces a post's stored hashtags and mentions with those found in
+ * `content`. Returns the IDs of users mentioned now who were not
+ * mentioned before, so edits do not re-notify existing mentions.
+ */
+export const syncPostEntities = async (
+  tx: Prisma.TransactionClient,
+  postId: number,
+  content: string
+): Promise<number[]> => {
+  const { hashtags, mentions } = extractEntities(content);
+  const previous = await tx.postMention.findMany({
+    where: { postId },
+    select: { userId: true },
+  });
+  await tx.postTag.deleteMany({ where: { postId } });
+  await tx.postMention.deleteMany({ where: { postId } });
+
+  const tagIds = await ensureTags(
+    tx,
+    hashtags.map((h) => h.tag)
+  );
+  await tx.postTag.createMany({
+    data: hashtags.map(({ tag, offset, length }) => ({
+      postId,
+      tagId: tagIds.get(tag)!,
+      offset,
+      length,
+    })),
+  });
+
+  const resolved = await resolveMentions(tx, mentions);
+  await tx.postMention.createMany({
+    data: resolved.map((mention) => ({ postId, ...mention })),
+  });
+  return newlyMentioned(previous, resolved);
+};
+
+/**
+ * Replaces a comment's stored hashtags and mentions with those found in
+ * `content`. Returns the IDs of users mentioned now who were not
+ * mentioned before, so edits do not re-notify existing mentions.
+ */
+export const syncCommentEntities = async (
+  tx: Prisma.TransactionClient,
+  commentId: number,
+  content: string
+): Promise<number[]> => {
+  const { hashtags, mentions } = extractEntities(content);
+  const previous = await tx.commentMention.findMany({
+    where: { commentId },
+    select: { userId: true },
+  });
+  await tx.commentTag.deleteMany({ where: { commentId } });
+  await tx.commentMention.deleteMany({ where: { commentId } });
+
+  const tagIds = await ensureTags(
+    tx,
+    hashtags.map((h) => h.tag)
+  );
+  await tx.commentTag.createMany({
+    data: hashtags.map(({ tag, offset, length }) => ({
+      commentId,
+      tagId: tagIds.get(tag)!,
+      offset,
+      length,
+    })),
+  });
+
+  const resolved = await resolveMentions(tx, mentions);
+  await tx.commentMention.createMany({
+    data: resolved.map((mention) => ({ commentId, ...mention })),
+  });
+  return newlyMentioned(previous, resolved);
+};
+
+// Relations to include when loading posts or comments for a payload
+export const entityInclude = {
+  tags: { include: { tag: { select: { name: true } } } },
+  mentions: { include: { user: { select: { id: true, username: true } } } },
+} as const;
+
+interface WithStoredEntities {
+  tags: (Occurrence & { tag: { name: string } })[];
+  mentions: (Occurrence & { user: { id: number; username: string } })[];
+}
+
+export const EMPTY_ENTITIES: Entities = { hashtags: [], mentions: [] };
+
+/**
+ * Swaps the raw tag/mention relations loaded with `entityInclude` for an
+ * `entities` object ordered by offset.
+ */
+export const withEntities = <T extends WithStoredEntities>(
+  row: T
+): Omit<T, "tags" | "mentions"> & { entities: Entities } => {
+  const { tags, mentions, ...rest } = row;
+  return {
+    ...rest,
+    entities: {
+      hashtags: tags
+        .map(({ tag, offset, length }) => ({ tag: tag.name, offset, length }))
+        .sort((a, b) => a.offset - b.offset),
+      mentions: mentions
+        .map(({ user, offset, length }) => ({
+          userId: user.id,
+          username: user.username,
+          offset,
+          length,
+        }))
+        .sort((a, b) => a.offset - b.offset),
+    },
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * Errors controllers and middleware throw to end a request with a 4xx
+ * response. The error handler renders them as RFC 7807 problem details:
+ * `message` becomes `detail` and `extensions` are added as extra members.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly extensions: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message: string, extensions?: Record<string, unknown>) {
+    super(400, message, extensions);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = "Authentication required") {
+    super(401, message);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, message);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, message);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, extensions?: Record<string, unknown>) {
+    super(409, message, extensions);
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  constructor(message: string) {
+    super(413, message);
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message: string) {
+    super(415, message);
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message: string, retryAfter: number) {
+    super(429, message, { retryAfter });
+  }
+}
@@ -0,0 +1,109 @@
+import { EventEmitter } from "events";
+
+export interface LiveEvent {
+  id: string;
+  channel: string;
+  type: string;
+  data: unknown;
+}
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+/**
+ * Transport for live updates. Controllers publish to it after their writes
+ * commit and SSE streams subscribe to it. The default implementation lives
+ * in this process; a broker-backed one can be installed with `setEventBus`.
+ */
+export interface EventBus {
+  publish(channel: string, type: string, data: unknown): Promise<LiveEvent>;
+  subscribe(channel: string, listener: LiveEventListener): () => void;
+  /**
+   * Events on `channel` published after `lastEventId`, oldest first, or
+   * null when the bus can no longer tell what was missed.
+   */
+  replay(channel: string, lastEventId: string): Promise<LiveEvent[] | null>;
+}
+
+// Global timeline of posts
+export const POSTS_CHANNEL = "posts";
+
+// Comment thread under a single post
+export const postCommentsChannel = (postId: number): string =>
+  `posts:${postId}:comments`;
+
+/**
+ * Single-process bus. Event IDs are increasing integers and the most recent
+ * events across all channels are kept in a bounded buffer for resume.
+ */
+export class InMemoryEventBus implements EventBus {
+  private emitter = new EventEmitter();
+  private history: LiveEvent[] = [];
+  private lastId = 0;
+
+  constructor(private historySize = 1000) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(
+    channel: string,
+    type: string,
+    data: unknown
+  ): Promise<LiveEvent> {
+    const event = { id: String(++this.lastId), channel, type, data };
+    this.history.push(event);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+    this.emitter.emit(channel, event);
+    return event;
+  }
+
+  subscribe(channel: string, listener: LiveEventListener): () => void {
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  async replay(
+    channel: string,
+    lastEventId: string
+  ): Promise<LiveEvent[] | null> {
+    const after = Number(lastEventId);
+    // Unknown IDs (e.g. from before a restart) cannot be resumed from
+    if (!Number.isInteger(after) || after < 0 || after > this.lastId) {
+      return null;
+    }
+    const oldest = this.history.length
+      ? Number(this.history[0].id)
+      : this.lastId + 1;
+    if (after < oldest - 1) {
+      return null;
+    }
+    return this.history.filter(
+      (event) => event.channel === channel && Number(event.id) > after
+    );
+  }
+}
+
+let bus: EventBus = new InMemoryEventBus();
+
+export const getEventBus = (): EventBus => bus;
+
+export const setEventBus = (next: EventBus): void => {
+  bus = next;
+};
+
+/**
+ * Publishes a live event without failing the caller: the write it describes
+ * has already been committed, so a bus error is only logged.
+ */
+export const publishEvent = (
+  channel: string,
+  type: string,
+  data: unknown
+): void => {
+  bus.publish(channel, type, data).catch((error) => {
+    console.error(`Failed to publish ${type} on ${channel}:`, error);
+  });
+};
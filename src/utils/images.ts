@@ -0,0 +1,107 @@
+import sharp from "sharp";
+import { BadRequestError, UnsupportedMediaTypeError } from "./errors";
+
+const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Largest accepted upload; override with MEDIA_MAX_BYTES
+export const MAX_IMAGE_BYTES = (() => {
+  const value = Number(process.env.MEDIA_MAX_BYTES);
+  return Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_MAX_IMAGE_BYTES;
+})();
+
+// Guards against decompression bombs: small files that decode huge
+const MAX_IMAGE_PIXELS = 40_000_000;
+
+// Thumbnails fit inside a square of this many pixels
+const THUMBNAIL_SIZE = 320;
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp";
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+export const THUMBNAIL_MIME_TYPE = IMAGE_MIME_TYPES.webp;
+
+export interface ProcessedImage {
+  format: ImageFormat;
+  data: Buffer;
+  width: number;
+  height: number;
+  thumbnail: Buffer;
+}
+
+const startsWith = (data: Buffer, bytes: number[], offset = 0): boolean =>
+  bytes.every((byte, i) => data[offset + i] === byte);
+
+const ascii = (text: string): number[] =>
+  [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * Identifies an image from its leading bytes; the client's file name and
+ * Content-Type are not trusted.
+ */
+export const sniffImageFormat = (data: Buffer): ImageFormat | null => {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) {
+    return "jpeg";
+  }
+  if (startsWith(data, [0x89, ...ascii("PNG\r\n\x1a\n")])) {
+    return "png";
+  }
+  if (startsWith(data, ascii("GIF87a")) || startsWith(data, ascii("GIF89a"))) {
+    return "gif";
+  }
+  if (startsWith(data, ascii("RIFF")) && startsWith(data, ascii("WEBP"), 8)) {
+    return "webp";
+  }
+  return null;
+};
+
+/**
+ * Re-encodes an upload in its own format, applying the EXIF orientation
+ * and dropping its metadata (EXIF with any GPS position, XMP, comments),
+ * and renders a WebP thumbnail of its first frame.
+ */
+export const processImage = async (
+  upload: Buffer,
+  name: string
+): Promise<ProcessedImage> => {
+  const format = sniffImageFormat(upload);
+  if (!format) {
+    throw new UnsupportedMediaTypeError(
+      `${name} is not a JPEG, PNG, GIF or WebP image`
+    );
+  }
+  try {
+    // sharp writes no metadata unless asked to, which strips EXIF
+    const { data, info } = await sharp(upload, {
+      animated: format === "gif" || format === "webp",
+      limitInputPixels: MAX_IMAGE_PIXELS,
+    })
+      .rotate()
+      .toFormat(format)
+      .toBuffer({ resolveWithObject: true });
+    const thumbnail = await sharp(data)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp()
+      .toBuffer();
+    return {
+      format,
+      data,
+      width: info.width,
+      // Animated images report the height of all frames stacked
+      height: info.pageHeight ?? info.height,
+      thumbnail,
+    };
+  } catch {
+    throw new BadRequestError(`${name} could not be read as an image`);
+  }
+};
@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+
+const DEFAULT_MEDIA_DIR = "uploads";
+
+/**
+ * Where uploaded files are kept, addressed by keys such as
+ * `posts/12/<uuid>.jpg`. The default implementation writes to local disk;
+ * an object store (S3, GCS, ...) can be installed with `setMediaStorage`.
+ */
+export interface MediaStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // The stored bytes, or null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  // Succeeds when nothing is stored under the key
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements MediaStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const file = this.resolve(key);
+    try {
+      await fs.promises.access(file);
+    } catch {
+      return null;
+    }
+    return fs.createReadStream(file);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Keys are generated by the app, but never let one escape the root
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return file;
+  }
+}
+
+let storage: MediaStorage = new LocalDiskStorage(
+  process.env.MEDIA_DIR || DEFAULT_MEDIA_DIR
+);
+
+export const getMediaStorage = (): MediaStorage => storage;
+
+export const setMediaStorage = (next: MediaStorage): void => {
+  storage = next;
+};
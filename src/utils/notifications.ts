@@ -0,0 +1,89 @@
+import { Prisma, NotificationType } from "@prisma/client";
+
+export interface NotificationEvent {
+  type: NotificationType;
+  recipientId: number;
+  actorId: number;
+  postId?: number;
+  commentId?: number;
+}
+
+// Events about the same thing for the same recipient share a group
+const groupKeyFor = ({ type, postId, commentId }: NotificationEvent): string =>
+  commentId ? `${type}:comment:${commentId}` : `${type}:post:${postId}`;
+
+/**
+ * Records a notification inside the caller's transaction. The event is
+ * folded into the recipient's unread notification for the same group if
+ * there is one; otherwise a new group is started. Users are never
+ * notified about their own actions.
+ */
+export const notify = async (
+  tx: Prisma.TransactionClient,
+  event: NotificationEvent
+): Promise<void> => {
+  const { type, recipientId, actorId, postId, commentId } = event;
+  if (recipientId === actorId) {
+    return;
+  }
+  const groupKey = groupKeyFor(event);
+  const now = new Date();
+
+  const existing = await tx.notification.findFirst({
+    where: { recipientId, groupKey, readAt: null },
+  });
+  if (existing) {
+    await tx.notification.update({
+      where: { id: existing.id },
+      data: { latestAt: now },
+    });
+    await tx.notificationActor.upsert({
+      where: {
+        notificationId_actorId: { notificationId: existing.id, actorId },
+      },
+      create: { notificationId: existing.id, actorId, createdAt: now },
+      update: { createdAt: now },
+    });
+    return;
+  }
+
+  await tx.notification.create({
+    data: {
+      type,
+      groupKey,
+      recipientId,
+      postId,
+      commentId,
+      latestAt: now,
+      actors: { create: { actorId, createdAt: now } },
+    },
+  });
+};
+
+const ACTIONS: Record<NotificationType, string> = {
+  POST_COMMENT: "commented on your post",
+  COMMENT_REPLY: "replied to your comment",
+  MENTION: "mentioned you",
+  POST_REACTION: "reacted to your post",
+  COMMENT_REACTION: "reacted to your comment",
+};
+
+/**
+ * Human-readable summary of a group, e.g. "alice and 2 others commented
+ * on your post". `recentActors` are the most recent actors, newest first.
+ */
+export const describeNotification = (
+  type: NotificationType,
+  recentActors: string[],
+  actorCount: number
+): string => {
+  const [first, second] = recentActors;
+  let who = first;
+  if (actorCount === 2 && second) {
+    who = `${first} and ${second}`;
+  } else if (actorCount > 2) {
+    const others = actorCount - 1;
+    who = `${first} and ${others} others`;
+  }
+  return `${who} ${ACTIONS[type]}`;
+};
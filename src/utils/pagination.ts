@@ -0,0 +1,117 @@
+// Opaque cursor pagination over a stable (timestamp, id) ordering; the
+// timestamp is createdAt unless a caller sorts by another column.
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+type Direction = "next" | "prev";
+
+export interface Cursor {
+  at: Date;
+  id: number;
+  direction: Direction;
+}
+
+export interface PageParams {
+  limit: number;
+  cursor: Cursor | null;
+}
+
+export interface PageInfo {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+interface Row {
+  id: number;
+}
+
+const encodeCursor = (at: Date, id: number, direction: Direction): string =>
+  Buffer.from(
+    JSON.stringify({ c: at.toISOString(), i: id, d: direction })
+  ).toString("base64url");
+
+export const decodeCursor = (value: string): Cursor | null => {
+  try {
+    const { c, i, d } = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf8")
+    );
+    const at = new Date(c);
+    if (
+      isNaN(at.getTime()) ||
+      !Number.isInteger(i) ||
+      (d !== "next" && d !== "prev")
+    ) {
+      return null;
+    }
+    return { at, id: i, direction: d };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Runs `fetch` for one page of rows ordered by (sortField, id) in the given
+ * order and returns the rows with next/prev cursors. The `where` passed to
+ * `fetch` already combines the caller's filter with the cursor position.
+ */
+export const paginate = async <
+  T extends Row & Record<K, Date>,
+  K extends string = "createdAt"
+>(
+  params: PageParams,
+  where: object,
+  order: "asc" | "desc",
+  fetch: (args: {
+    where: object;
+    orderBy: object[];
+    take: number;
+  }) => Promise<T[]>,
+  sortField: K = "createdAt" as K
+): Promise<{ data: T[]; pagination: PageInfo }> => {
+  const { limit, cursor } = params;
+  const backwards = cursor?.direction === "prev";
+  // Walking backwards means reading the opposite order, then flipping
+  const readOrder = backwards ? (order === "asc" ? "desc" : "asc") : order;
+  const cmp = readOrder === "asc" ? "gt" : "lt";
+
+  const cursorWhere = cursor
+    ? {
+        OR: [
+          { [sortField]: { [cmp]: cursor.at } },
+          { [sortField]: cursor.at, id: { [cmp]: cursor.id } },
+        ],
+      }
+    : {};
+
+  const rows = await fetch({
+    where: { AND: [where, cursorWhere] },
+    orderBy: [{ [sortField]: readOrder }, { id: readOrder }],
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+  if (backwards) {
+    data.reverse();
+  }
+
+  const first = data[0];
+  const last = data[data.length - 1];
+  const hasNext = backwards ? !!cursor : hasMore;
+  const hasPrev = backwards ? hasMore : !!cursor;
+
+  return {
+    data,
+    pagination: {
+      limit,
+      nextCursor:
+        hasNext && last ? encodeCursor(last[sortField], last.id, "next") : null,
+      prevCursor:
+        hasPrev && first
+          ? encodeCursor(first[sortField], first.id, "prev")
+          : null,
+    },
+  };
+};
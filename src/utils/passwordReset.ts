@@ -0,0 +1,21 @@
+import { PrismaClient } from "@prisma/client";
+import { generatePasswordResetToken } from "./auth";
+
+const prisma = new PrismaClient();
+
+/**
+ * Issues a one-time password reset token for a user and returns it in the
+ * clear; only its hash is stored. Any earlier unused token stops working.
+ */
+export const issuePasswordReset = async (
+  userId: number
+): Promise<{ token: string; expiresAt: Date }> => {
+  const { token, tokenHash, expiresAt } = generatePasswordResetToken();
+  await prisma.$transaction([
+    prisma.passwordResetToken.deleteMany({ where: { userId, usedAt: null } }),
+    prisma.passwordResetToken.create({
+      data: { tokenHash, userId, expiresAt },
+    }),
+  ]);
+  return { token, expiresAt };
+};
@@ -0,0 +1,146 @@
+import {
+  PrismaClient,
+  Post,
+  PostAttachment,
+  ShareType,
+  BoardVisibility,
+} from "@prisma/client";
+import { AuthUser } from "../middlewares/auth";
+import { entityInclude, withEntities } from "./entities";
+import { visiblePostWhere } from "./boards";
+import { getPostReactionSummaries } from "./reactions";
+import { withEditState } from "./revisions";
+
+const prisma = new PrismaClient();
+
+const attachmentInclude = {
+  attachments: {
+    orderBy: [{ position: "asc" as const }, { id: "asc" as const }],
+  },
+};
+
+const boardInclude = {
+  board: { select: { id: true, name: true, visibility: true } },
+};
+
+// Relations to include when loading posts that will go through presentPosts
+export const postInclude = {
+  ...entityInclude,
+  ...attachmentInclude,
+  ...boardInclude,
+  sharedPost: {
+    include: { ...entityInclude, ...attachmentInclude, ...boardInclude },
+  },
+};
+
+type SharedPost = Post &
+  Parameters<typeof withEntities>[0] & {
+    attachments: PostAttachment[];
+    board: { id: number; name: string; visibility: BoardVisibility };
+  };
+
+type LoadedPost = SharedPost & { sharedPost: SharedPost | null };
+
+// Attachment metadata with the URLs the files are served from
+export const presentAttachment = ({
+  storageKey,
+  thumbnailKey,
+  ...attachment
+}: PostAttachment) => {
+  const url = `/posts/${attachment.postId}/attachments/${attachment.id}`;
+  return { ...attachment, url, thumbnailUrl: `${url}/thumbnail` };
+};
+
+// Why a shared post cannot be shown inside the post that shares it. A post
+// from a private board only shows on that board, which matters once a
+// public board the post was shared from is made private.
+const unavailableReason = (shared: SharedPost, sharer: Post) =>
+  shared.deletedAt
+    ? ("deleted" as const)
+    : shared.hiddenAt
+    ? ("hidden" as const)
+    : shared.board.visibility === BoardVisibility.PRIVATE &&
+      shared.boardId !== sharer.boardId
+    ? ("private" as const)
+    : null;
+
+// What an unavailable shared post is shown as in its place
+const tombstone = (
+  post: Post,
+  reason: NonNullable<ReturnType<typeof unavailableReason>>
+) => ({ id: post.id, available: false as const, unavailableReason: reason });
+
+/**
+ * Counts the reposts and quotes of each post that the viewer can see.
+ * Deleted and hidden shares, and shares on boards the viewer cannot read, do
+ * not count, so the numbers match what the viewer can find.
+ */
+export const getShareCounts = async (
+  postIds: number[],
+  viewer?: AuthUser
+): Promise<Map<number, { repostCount: number; quoteCount: number }>> => {
+  const counts = new Map(
+    postIds.map((id) => [id, { repostCount: 0, quoteCount: 0 }])
+  );
+  if (postIds.length === 0) {
+    return counts;
+  }
+  const groups = await prisma.post.groupBy({
+    by: ["sharedPostId", "shareType"],
+    where: {
+      sharedPostId: { in: postIds },
+      deletedAt: null,
+      hiddenAt: null,
+      ...visiblePostWhere(viewer),
+    },
+    _count: { _all: true },
+  });
+  for (const group of groups) {
+    const entry = counts.get(group.sharedPostId!)!;
+    if (group.shareType === ShareType.REPOST) {
+      entry.repostCount = group._count._all;
+    } else {
+      entry.quoteCount = group._count._all;
+    }
+  }
+  return counts;
+};
+
+/**
+ * Shapes posts loaded with `postInclude` for API responses: adds linked
+ * entities, attachment URLs, the edited flag, share counts and reaction
+ * summaries from the viewer's point of view. A shared post is embedded
+ * one level deep, or replaced by a tombstone once it is unavailable.
+ */
+export const presentPosts = async <T extends LoadedPost>(
+  posts: T[],
+  viewer?: AuthUser
+) => {
+  const embedded = posts.flatMap(({ sharedPost, ...post }) =>
+    sharedPost && !unavailableReason(sharedPost, post) ? [sharedPost] : []
+  );
+  const ids = [...posts, ...embedded].map((post) => post.id);
+  const [summaries, shareCounts] = await Promise.all([
+    getPostReactionSummaries(ids, viewer?.id),
+    getShareCounts(ids, viewer),
+  ]);
+
+  const present = <P extends SharedPost>(post: P) => ({
+    ...withEditState(withEntities(post)),
+    attachments: post.attachments.map(presentAttachment),
+    ...shareCounts.get(post.id)!,
+    reactions: summaries.get(post.id)!,
+  });
+
+  return posts.map(({ sharedPost, ...post }) => {
+    const reason = sharedPost && unavailableReason(sharedPost, post);
+    return {
+      ...present(post),
+      sharedPost: !sharedPost
+        ? null
+        : reason
+        ? tombstone(sharedPost, reason)
+        : { ...present(sharedPost), available: true as const },
+    };
+  });
+};
@@ -0,0 +1,53 @@
+export interface RateLimitHit {
+  // Hits counted in the current window, including this one
+  count: number;
+  // When the current window ends, in milliseconds since the epoch
+  resetAt: number;
+}
+
+/**
+ * Counts hits per key in fixed windows. The default implementation lives in
+ * this process, so limits are per instance; a shared backend (e.g. Redis
+ * INCR + PEXPIRE) can be installed with `setRateLimitStore` to enforce them
+ * across instances.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  constructor(sweepIntervalMs = 60_000) {
+    // Drop expired windows so idle keys do not accumulate
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return { ...window };
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+let store: RateLimitStore = new InMemoryRateLimitStore();
+
+export const getRateLimitStore = (): RateLimitStore => store;
+
+export const setRateLimitStore = (next: RateLimitStore): void => {
+  store = next;
+};
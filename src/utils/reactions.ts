@@ -0,0 +1,104 @@
+import { PrismaClient, ReactionType } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export interface ReactionSummary {
+  counts: Partial<Record<ReactionType, number>>;
+  total: number;
+  viewerReaction: ReactionType | null;
+}
+
+const emptySummary = (): ReactionSummary => ({
+  counts: {},
+  total: 0,
+  viewerReaction: null,
+});
+
+const summarize = (
+  ids: number[],
+  groups: { targetId: number; type: ReactionType; count: number }[],
+  viewerReactions: { targetId: number; type: ReactionType }[]
+): Map<number, ReactionSummary> => {
+  const summaries = new Map<number, ReactionSummary>(
+    ids.map((id) => [id, emptySummary()])
+  );
+  for (const { targetId, type, count } of groups) {
+    const summary = summaries.get(targetId)!;
+    summary.counts[type] = count;
+    summary.total += count;
+  }
+  for (const { targetId, type } of viewerReactions) {
+    summaries.get(targetId)!.viewerReaction = type;
+  }
+  return summaries;
+};
+
+/**
+ * Per-type reaction counts for each post, plus the viewer's own reaction
+ * when a viewer is given.
+ */
+export const getPostReactionSummaries = async (
+  postIds: number[],
+  viewerId?: number
+): Promise<Map<number, ReactionSummary>> => {
+  if (postIds.length === 0) {
+    return new Map();
+  }
+  const [groups, viewerReactions] = await Promise.all([
+    prisma.postReaction.groupBy({
+      by: ["postId", "type"],
+      where: { postId: { in: postIds } },
+      _count: { _all: true },
+    }),
+    viewerId
+      ? prisma.postReaction.findMany({
+          where: { postId: { in: postIds }, userId: viewerId },
+          select: { postId: true, type: true },
+        })
+      : Promise.resolve([]),
+  ]);
+  return summarize(
+    postIds,
+    groups.map((g) => ({
+      targetId: g.postId,
+      type: g.type,
+      count: g._count._all,
+    })),
+    viewerReactions.map((r) => ({ targetId: r.postId, type: r.type }))
+  );
+};
+
+/**
+ * Per-type reaction counts for each comment, plus the viewer's own
+ * reaction when a viewer is given.
+ */
+export const getCommentReactionSummaries = async (
+  commentIds: number[],
+  viewerId?: number
+): Promise<Map<number, ReactionSummary>> => {
+  if (commentIds.length === 0) {
+    return new Map();
+  }
+  const [groups, viewerReactions] = await Promise.all([
+    prisma.commentReaction.groupBy({
+      by: ["commentId", "type"],
+      where: { commentId: { in: commentIds } },
+      _count: { _all: true },
+    }),
+    viewerId
+      ? prisma.commentReaction.findMany({
+          where: { commentId: { in: commentIds }, userId: viewerId },
+          select: { commentId: true, type: true },
+        })
+      : Promise.resolve([]),
+  ]);
+  return summarize(
+    commentIds,
+    groups.map((g) => ({
+      targetId: g.commentId,
+      type: g.type,
+      count: g._count._all,
+    })),
+    viewerReactions.map((r) => ({ targetId: r.commentId, type: r.type }))
+  );
+};
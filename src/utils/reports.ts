@@ -0,0 +1,233 @@
+import {
+  PrismaClient,
+  Prisma,
+  ReportCategory,
+  ReportStatus,
+} from "@prisma/client";
+import { entityInclude, withEntities } from "./entities";
+import { postInclude, presentPosts } from "./posts";
+import { isPublicBoard } from "./boards";
+import { withEditState } from "./revisions";
+import {
+  publishEvent,
+  POSTS_CHANNEL,
+  postCommentsChannel,
+} from "./eventBus";
+import { ConflictError } from "./errors";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_AUTO_HIDE_THRESHOLD = 5;
+
+// Distinct reporters in one round after which a post or comment is hidden
+// pending review; override with REPORT_AUTO_HIDE_THRESHOLD
+const AUTO_HIDE_THRESHOLD = (() => {
+  const value = Number(process.env.REPORT_AUTO_HIDE_THRESHOLD);
+  return Number.isInteger(value) && value > 0
+    ? value
+    : DEFAULT_AUTO_HIDE_THRESHOLD;
+})();
+
+export type ReportTarget =
+  | { postId: number }
+  | { commentId: number }
+  | { userId: number };
+
+export interface ReportInput {
+  category: ReportCategory;
+  details?: string;
+}
+
+// A post, or a comment and its post, to announce visibility changes for
+export interface ContentRef {
+  postId: number;
+  commentId: number | null;
+}
+
+// Finds or opens the target's case; a resolved case reopens in a new round
+const openCase = async (
+  tx: Prisma.TransactionClient,
+  target: ReportTarget
+) => {
+  const reportCase = await tx.reportCase.upsert({
+    where: target as Prisma.ReportCaseWhereUniqueInput,
+    create: target,
+    update: {},
+  });
+  if (reportCase.status === ReportStatus.OPEN) {
+    return reportCase;
+  }
+  // Only one of several concurrent reports gets to start the new round
+  await tx.reportCase.updateMany({
+    where: { id: reportCase.id, status: ReportStatus.RESOLVED },
+    data: {
+      status: ReportStatus.OPEN,
+      round: { increment: 1 },
+      reportCount: 0,
+      openedAt: new Date(),
+      autoHiddenAt: null,
+      resolution: null,
+      resolutionNote: null,
+      resolvedById: null,
+      resolvedAt: null,
+    },
+  });
+  return tx.reportCase.findUniqueOrThrow({ where: { id: reportCase.id } });
+};
+
+/**
+ * Adds a user's report to the target's case and hides the content once the
+ * round reaches the auto-hide threshold.
+ */
+export const fileReport = async (
+  target: ReportTarget,
+  reporterId: number,
+  input: ReportInput,
+  noun: string
+) => {
+  const [report, autoHidden] = await prisma.$transaction(async (tx) => {
+    const reportCase = await openCase(tx, target);
+
+    const existing = await tx.report.findUnique({
+      where: {
+        caseId_round_reporterId: {
+          caseId: reportCase.id,
+          round: reportCase.round,
+          reporterId,
+        },
+      },
+    });
+    if (existing) {
+      throw new ConflictError(`You have already reported this ${noun}`);
+    }
+
+    const created = await tx.report.create({
+      data: {
+        caseId: reportCase.id,
+        round: reportCase.round,
+        reporterId,
+        category: input.category,
+        details: input.details,
+      },
+    });
+    const updated = await tx.reportCase.update({
+      where: { id: reportCase.id },
+      data: {
+        reportCount: { increment: 1 },
+        lastReportedAt: created.createdAt,
+      },
+    });
+
+    let hidden: ContentRef | null = null;
+    if (
+      updated.reportCount >= AUTO_HIDE_THRESHOLD &&
+      !updated.autoHiddenAt
+    ) {
+      hidden = await autoHide(tx, updated);
+    }
+    return [created, hidden] as const;
+  });
+
+  if (autoHidden) {
+    publishHidden(autoHidden);
+  }
+  return report;
+};
+
+/**
+ * Puts the target in the moderation queue without a reporter, e.g. for the
+ * content filter. Such reports do not count towards the auto-hide threshold.
+ */
+export const flagForReview = async (
+  target: ReportTarget,
+  input: ReportInput
+): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const reportCase = await openCase(tx, target);
+    const created = await tx.report.create({
+      data: {
+        caseId: reportCase.id,
+        round: reportCase.round,
+        category: input.category,
+        details: input.details,
+      },
+    });
+    await tx.reportCase.update({
+      where: { id: reportCase.id },
+      data: { lastReportedAt: created.createdAt },
+    });
+  });
+};
+
+// Hides the case's post or comment unless it is already hidden or deleted
+const autoHide = async (
+  tx: Prisma.TransactionClient,
+  reportCase: { id: number; postId: number | null; commentId: number | null }
+): Promise<ContentRef | null> => {
+  const now = new Date();
+  let hidden: ContentRef | null = null;
+  if (reportCase.postId) {
+    const { count } = await tx.post.updateMany({
+      where: { id: reportCase.postId, deletedAt: null, hiddenAt: null },
+      data: { hiddenAt: now },
+    });
+    if (count > 0) {
+      hidden = { postId: reportCase.postId, commentId: null };
+    }
+  } else if (reportCase.commentId) {
+    const { count } = await tx.comment.updateMany({
+      where: { id: reportCase.commentId, deletedAt: null, hiddenAt: null },
+      data: { hiddenAt: now },
+    });
+    if (count > 0) {
+      const { postId } = await tx.comment.findUniqueOrThrow({
+        where: { id: reportCase.commentId },
+      });
+      hidden = { postId, commentId: reportCase.commentId };
+    }
+  }
+  if (hidden) {
+    await tx.reportCase.update({
+      where: { id: reportCase.id },
+      data: { autoHiddenAt: now },
+    });
+  }
+  return hidden;
+};
+
+export const publishHidden = ({ postId, commentId }: ContentRef): void => {
+  if (commentId) {
+    publishEvent(postCommentsChannel(postId), "comment.hidden", {
+      id: commentId,
+      postId,
+    });
+  } else {
+    publishEvent(POSTS_CHANNEL, "post.hidden", { id: postId });
+  }
+};
+
+export const publishUnhidden = async ({
+  postId,
+  commentId,
+}: ContentRef): Promise<void> => {
+  if (commentId) {
+    const loaded = await prisma.comment.findUniqueOrThrow({
+      where: { id: commentId },
+      include: entityInclude,
+    });
+    publishEvent(
+      postCommentsChannel(postId),
+      "comment.unhidden",
+      withEditState(withEntities(loaded))
+    );
+  } else {
+    const loaded = await prisma.post.findUniqueOrThrow({
+      where: { id: postId },
+      include: postInclude,
+    });
+    if (isPublicBoard(loaded.board)) {
+      const [broadcast] = await presentPosts([loaded]);
+      publishEvent(POSTS_CHANNEL, "post.unhidden", broadcast);
+    }
+  }
+};
@@ -0,0 +1,92 @@
+import { Prisma, Post, Comment } from "@prisma/client";
+import { diffWords, DiffSegment } from "./diff";
+
+interface Editable {
+  content: string;
+  editCount: number;
+  editedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface Version {
+  version: number;
+  content: string;
+  createdAt: Date;
+  current: boolean;
+}
+
+// Adds the flag clients use to mark edited posts and comments
+export const withEditState = <T extends { editCount: number }>(row: T) => ({
+  ...row,
+  edited: row.editCount > 0,
+});
+
+// The live content as a version: one more than the number of edits
+const currentVersion = (row: Editable): Version => ({
+  version: row.editCount + 1,
+  content: row.content,
+  createdAt: row.editedAt ?? row.createdAt,
+  current: true,
+});
+
+/**
+ * Stores the content an edit is about to replace. Must run in the same
+ * transaction as the update that increments `editCount`; the unique
+ * (target, version) index rejects a concurrent edit of the same version.
+ */
+export const recordPostRevision = async (
+  tx: Prisma.TransactionClient,
+  post: Post
+): Promise<void> => {
+  const { version, content, createdAt } = currentVersion(post);
+  await tx.postRevision.create({
+    data: { postId: post.id, version, content, createdAt },
+  });
+};
+
+export const recordCommentRevision = async (
+  tx: Prisma.TransactionClient,
+  comment: Comment
+): Promise<void> => {
+  const { version, content, createdAt } = currentVersion(comment);
+  await tx.commentRevision.create({
+    data: { commentId: comment.id, version, content, createdAt },
+  });
+};
+
+// Full history, oldest first: stored revisions followed by the live content
+export const listVersions = (
+  revisions: { version: number; content: string; createdAt: Date }[],
+  row: Editable
+): Version[] => [
+  ...revisions.map(({ version, content, createdAt }) => ({
+    version,
+    content,
+    createdAt,
+    current: false,
+  })),
+  currentVersion(row),
+];
+
+/**
+ * Diffs two versions picked by the `from`/`to` query parameters. `to`
+ * defaults to the current version and `from` to the one before `to`.
+ */
+export const diffVersions = (
+  versions: Version[],
+  query: { from?: number; to?: number }
+):
+  | { from: Version; to: Version; changes: DiffSegment[] }
+  | { error: string } => {
+  const latest = versions[versions.length - 1].version;
+  const toNumber = query.to ?? latest;
+  const fromNumber = query.from ?? toNumber - 1;
+  const from = versions.find((version) => version.version === fromNumber);
+  const to = versions.find((version) => version.version === toNumber);
+  if (!from || !to) {
+    return {
+      error: `from and to must be versions between 1 and ${latest}`,
+    };
+  }
+  return { from, to, changes: diffWords(from.content, to.content) };
+};
@@ -0,0 +1,147 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import {
+  publishEvent,
+  POSTS_CHANNEL,
+  postCommentsChannel,
+} from "./eventBus";
+import { isPublicBoard } from "./boards";
+
+/**
+ * Fields written by one soft delete. Every row the delete cascades to shares
+ * the batch ID, so a restore can bring back exactly those rows and leave
+ * alone anything that had been deleted independently before.
+ */
+export interface DeletionBatch {
+  deletedAt: Date;
+  deletionBatchId: string;
+}
+
+// Loads what the events need to know about an affected post
+const affectedPostSelect = {
+  id: true,
+  board: { select: { visibility: true } },
+} satisfies Prisma.PostSelect;
+
+// Posts and comments whose visibility changed, for live update events
+export interface AffectedContent {
+  posts: Prisma.PostGetPayload<{ select: typeof affectedPostSelect }>[];
+  comments: { id: number; postId: number }[];
+}
+
+export const newDeletionBatch = (): DeletionBatch => ({
+  deletedAt: new Date(),
+  deletionBatchId: randomUUID(),
+});
+
+const softDeleteComments = async (
+  tx: Prisma.TransactionClient,
+  where: Prisma.CommentWhereInput,
+  batch: DeletionBatch
+): Promise<AffectedContent["comments"]> => {
+  const comments = await tx.comment.findMany({
+    where: { ...where, deletedAt: null },
+    select: { id: true, postId: true },
+  });
+  await tx.comment.updateMany({
+    where: { id: { in: comments.map((comment) => comment.id) } },
+    data: batch,
+  });
+  return comments;
+};
+
+// Deletes a post together with its still-visible comments
+export const softDeletePost = async (
+  tx: Prisma.TransactionClient,
+  postId: number,
+  batch: DeletionBatch
+): Promise<AffectedContent> => {
+  const post = await tx.post.update({
+    where: { id: postId },
+    data: batch,
+    select: affectedPostSelect,
+  });
+  const comments = await softDeleteComments(tx, { postId }, batch);
+  return { posts: [post], comments };
+};
+
+// Deletes a user, their posts, every comment they wrote or that sits under
+// one of their posts, and the direct messages they sent
+export const softDeleteUser = async (
+  tx: Prisma.TransactionClient,
+  userId: number,
+  batch: DeletionBatch
+): Promise<AffectedContent> => {
+  await tx.user.update({ where: { id: userId }, data: batch });
+  const posts = await tx.post.findMany({
+    where: { userId, deletedAt: null },
+    select: affectedPostSelect,
+  });
+  const postIds = posts.map((post) => post.id);
+  await tx.post.updateMany({
+    where: { id: { in: postIds } },
+    data: batch,
+  });
+  const comments = await softDeleteComments(
+    tx,
+    { OR: [{ userId }, { postId: { in: postIds } }] },
+    batch
+  );
+  await tx.message.updateMany({
+    where: { senderId: userId, deletedAt: null },
+    data: batch,
+  });
+  return { posts, comments };
+};
+
+/**
+ * Reverses one soft delete: every user, post, comment and message in the
+ * batch is undeleted. A batch must only be restored through the row the delete was
+ * requested on, so callers refuse to restore content whose author or post
+ * is still deleted (it was removed by a wider cascade).
+ */
+export const restoreDeletionBatch = async (
+  tx: Prisma.TransactionClient,
+  deletionBatchId: string
+): Promise<AffectedContent> => {
+  const restored = { deletedAt: null, deletionBatchId: null };
+  const posts = await tx.post.findMany({
+    where: { deletionBatchId },
+    select: affectedPostSelect,
+  });
+  const comments = await tx.comment.findMany({
+    where: { deletionBatchId },
+    select: { id: true, postId: true },
+  });
+  await tx.user.updateMany({ where: { deletionBatchId }, data: restored });
+  await tx.post.updateMany({ where: { deletionBatchId }, data: restored });
+  await tx.comment.updateMany({ where: { deletionBatchId }, data: restored });
+  await tx.message.updateMany({ where: { deletionBatchId }, data: restored });
+  return { posts, comments };
+};
+
+/**
+ * Announces posts and comments that a delete or restore made disappear or
+ * reappear. Comments under an affected post are covered by the post event,
+ * and only public posts are announced on the shared posts stream.
+ */
+export const publishAffectedContent = (
+  affected: AffectedContent,
+  change: "deleted" | "restored"
+): void => {
+  const postIds = affected.posts.map((post) => post.id);
+  for (const { id, board } of affected.posts) {
+    if (isPublicBoard(board)) {
+      publishEvent(POSTS_CHANNEL, `post.${change}`, { id });
+    }
+    publishEvent(postCommentsChannel(id), `post.${change}`, { id });
+  }
+  for (const { id, postId } of affected.comments) {
+    if (!postIds.includes(postId)) {
+      publishEvent(postCommentsChannel(postId), `comment.${change}`, {
+        id,
+        postId,
+      });
+    }
+  }
+};
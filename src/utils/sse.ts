@@ -0,0 +1,80 @@
+import { Request, Response } from "express";
+import { getEventBus, LiveEvent } from "./eventBus";
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_MS = 25_000;
+// How long clients wait before reconnecting after a dropped connection
+const RETRY_MS = 3_000;
+
+const writeEvent = (res: Response, event: LiveEvent): void => {
+  res.write(
+    `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(
+      event.data
+    )}\n\n`
+  );
+};
+
+/**
+ * Serves a channel of the event bus as a Server-Sent Events stream. Clients
+ * resuming with `Last-Event-ID` (or `?lastEventId=`) first receive what they
+ * missed; if that is no longer available they get a `reset` event and
+ * should refetch the list before relying on the stream.
+ */
+export const streamChannel = async (
+  req: Request,
+  res: Response,
+  channel: string
+): Promise<void> => {
+  const bus = getEventBus();
+  const lastEventId =
+    req.get("Last-Event-ID") ?? (req.query.lastEventId as string | undefined);
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  // Subscribe before replaying so nothing published in between is lost;
+  // live events are held back until the replay has been written
+  let pending: LiveEvent[] | null = [];
+  const unsubscribe = bus.subscribe(channel, (event) => {
+    if (pending) {
+      pending.push(event);
+    } else {
+      writeEvent(res, event);
+    }
+  });
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  const sent = new Set<string>();
+  if (lastEventId) {
+    try {
+      const missed = await bus.replay(channel, lastEventId);
+      if (missed === null) {
+        res.write(`event: reset\ndata: {}\n\n`);
+      } else {
+        for (const event of missed) {
+          writeEvent(res, event);
+          sent.add(event.id);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to replay ${channel}:`, error);
+      res.write(`event: reset\ndata: {}\n\n`);
+    }
+  }
+  for (const event of pending) {
+    if (!sent.has(event.id)) {
+      writeEvent(res, event);
+    }
+  }
+  pending = null;
+};